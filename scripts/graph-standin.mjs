@@ -0,0 +1,225 @@
+#!/usr/bin/env node
+
+/**
+ * Local Microsoft Graph stand-in for offline development
+ *
+ * Serves canned responses for the Copilot APIs used by this server, including
+ * the streaming chat endpoint (server-sent events). Access tokens are accepted
+ * but not validated.
+ *
+ * Usage:
+ *   npm run standin                      # listens on http://localhost:4000
+ *   M365_CLOUD=http://localhost:4000 npm start
+ *
+ * Environment variables:
+ *   STANDIN_PORT            Port to listen on (default: 4000)
+ *   STANDIN_STREAM_DELAY_MS Delay between streamed chunks (default: 150)
+ *   STANDIN_THROTTLE_EVERY  Answer every Nth request with 429 + Retry-After (default: off)
+ */
+
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const port = Number(process.env.STANDIN_PORT || 4000);
+const streamDelayMs = Number(process.env.STANDIN_STREAM_DELAY_MS || 150);
+const throttleEvery = Number(process.env.STANDIN_THROTTLE_EVERY || 0);
+
+const conversations = new Map();
+let requestCount = 0;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res, status, code, message) {
+  sendJson(res, status, { error: { code, message } });
+}
+
+async function readBody(req) {
+  let raw = '';
+  for await (const chunk of req) {
+    raw += chunk;
+  }
+  return raw ? JSON.parse(raw) : {};
+}
+
+function createConversation() {
+  const conversation = {
+    id: randomUUID(),
+    createdDateTime: new Date().toISOString(),
+    displayName: '',
+    status: 'active',
+    turnCount: 0,
+    messages: [],
+  };
+  conversations.set(conversation.id, conversation);
+  return conversation;
+}
+
+function snapshot(conversation, messages) {
+  const { id, createdDateTime, displayName, turnCount } = conversation;
+  return { id, createdDateTime, displayName, state: 'active', turnCount, messages };
+}
+
+function buildReply(body) {
+  const question = body.message?.text || '';
+  return `This is the Graph stand-in answering "${question}". ` +
+    `Your time zone is ${body.locationHint?.timeZone || 'unknown'}. ` +
+    'The quarterly plan is stored in the Finance site[^1^].';
+}
+
+function buildMessages(conversation, body, replyText) {
+  const now = new Date().toISOString();
+  return [
+    {
+      '@odata.type': '#microsoft.graph.copilotConversationRequestMessage',
+      id: randomUUID(),
+      text: body.message?.text || '',
+      createdDateTime: now,
+    },
+    {
+      '@odata.type': '#microsoft.graph.copilotConversationResponseMessage',
+      id: randomUUID(),
+      text: replyText,
+      createdDateTime: now,
+      adaptiveCards: [
+        {
+          type: 'AdaptiveCard',
+          version: '1.5',
+          body: [
+            { type: 'TextBlock', text: 'Quarterly plan', style: 'heading' },
+            { type: 'FactSet', facts: [{ title: 'Owner', value: 'Megan Bowen' }, { title: 'Status', value: 'On track' }] },
+          ],
+          actions: [
+            { type: 'Action.OpenUrl', title: 'Open plan', url: 'https://contoso.sharepoint.com/sites/Finance/Quarterly%20plan.docx' },
+          ],
+        },
+      ],
+      attributions: [
+        {
+          attributionType: 'citation',
+          providerDisplayName: 'Quarterly plan.docx',
+          attributionSource: 'model',
+          seeMoreWebUrl: 'https://contoso.sharepoint.com/sites/Finance/Quarterly%20plan.docx',
+        },
+      ],
+      sensitivityLabel: null,
+    },
+  ];
+}
+
+async function handleChat(req, res, conversationId, stream) {
+  const conversation = conversations.get(conversationId);
+  if (!conversation) {
+    return sendError(res, 404, 'NotFound', `Conversation ${conversationId} not found`);
+  }
+
+  const body = await readBody(req);
+  const replyText = buildReply(body);
+  conversation.turnCount++;
+
+  if (!stream) {
+    return sendJson(res, 200, snapshot(conversation, buildMessages(conversation, body, replyText)));
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  // Stream the reply a few words at a time; each event carries the full snapshot so far
+  const words = replyText.split(' ');
+  for (let i = 1; i <= words.length; i += 3) {
+    const partial = words.slice(0, i + 2).join(' ');
+    res.write(`data: ${JSON.stringify(snapshot(conversation, buildMessages(conversation, body, partial)))}\n\n`);
+    await sleep(streamDelayMs);
+  }
+  res.end();
+}
+
+function retrievalHits(body) {
+  return [1, 2].map((n) => ({
+    webUrl: `https://contoso.sharepoint.com/sites/Finance/${body.dataSource}-doc-${n}.docx`,
+    extracts: [
+      { text: `Extract ${n} from ${body.dataSource} about "${body.queryString}".`, relevanceScore: 0.9 - n / 10 },
+    ],
+    resourceType: body.dataSource === 'externalItem' ? 'externalItem' : 'listItem',
+    resourceMetadata: { title: `${body.dataSource} document ${n}`, author: 'Megan Bowen' },
+  }));
+}
+
+function searchPage(page, pageSize, baseUrl) {
+  const total = 12;
+  const start = page * pageSize;
+  const hits = [];
+  for (let i = start; i < Math.min(start + pageSize, total); i++) {
+    hits.push({
+      webUrl: `https://contoso.sharepoint.com/sites/Finance/search-result-${i + 1}.docx`,
+      preview: `Preview of search result ${i + 1}`,
+      resourceType: 'driveItem',
+    });
+  }
+  const hasMore = start + pageSize < total;
+  return {
+    totalCount: total,
+    searchHits: hits,
+    ...(hasMore
+      ? { '@odata.nextLink': `${baseUrl}/beta/copilot/search?$skiptoken=${page + 1}&pageSize=${pageSize}` }
+      : {}),
+  };
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const baseUrl = `http://${req.headers.host}`;
+  console.error(`${req.method} ${url.pathname}${url.search}`);
+
+  try {
+    requestCount++;
+    if (throttleEvery > 0 && requestCount % throttleEvery === 0) {
+      return sendJson(res, 429, { error: { code: 'TooManyRequests', message: 'Throttled by stand-in' } }, {
+        'Retry-After': '1',
+      });
+    }
+
+    if (!req.headers.authorization?.startsWith('Bearer ')) {
+      return sendError(res, 401, 'InvalidAuthenticationToken', 'Access token is empty.');
+    }
+
+    let match;
+    if (req.method === 'POST' && url.pathname === '/beta/copilot/conversations') {
+      await readBody(req);
+      const { messages, ...conversation } = createConversation();
+      return sendJson(res, 201, conversation);
+    }
+    if (req.method === 'POST' && (match = url.pathname.match(/^\/beta\/copilot\/conversations\/([^/]+)\/(chat|chatOverStream)$/))) {
+      return await handleChat(req, res, match[1], match[2] === 'chatOverStream');
+    }
+    if (req.method === 'POST' && url.pathname === '/beta/copilot/retrieval') {
+      const body = await readBody(req);
+      return sendJson(res, 200, { retrievalHits: retrievalHits(body) });
+    }
+    if (req.method === 'POST' && url.pathname === '/beta/copilot/search') {
+      const body = await readBody(req);
+      return sendJson(res, 200, searchPage(0, body.pageSize || 5, baseUrl));
+    }
+    if (req.method === 'GET' && url.pathname === '/beta/copilot/search') {
+      const page = Number(url.searchParams.get('$skiptoken') || 0);
+      const pageSize = Number(url.searchParams.get('pageSize') || 5);
+      return sendJson(res, 200, searchPage(page, pageSize, baseUrl));
+    }
+
+    sendError(res, 404, 'NotFound', `No stand-in route for ${req.method} ${url.pathname}`);
+  } catch (error) {
+    console.error(error);
+    sendError(res, 500, 'InternalServerError', String(error));
+  }
+});
+
+server.listen(port, () => {
+  console.error(`Graph stand-in listening on http://localhost:${port}`);
+});
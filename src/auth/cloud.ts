@@ -0,0 +1,162 @@
+/**
+ * National cloud configuration
+ * Resolves the Microsoft Graph host, the Azure AD authority and the scope
+ * resource for the cloud the server is running against
+ */
+
+import { AzureAuthorityHosts } from '@azure/identity';
+import { info } from '../utils/logger.js';
+import { ConfigurationError } from '../utils/errors.js';
+import { getSettings } from '../config/settings.js';
+
+/**
+ * Supported cloud environments
+ * - Public: Microsoft Graph global service
+ * - USGov: US Government L4 (GCC) - uses the global endpoints
+ * - USGovHigh: US Government L4 (GCC High)
+ * - DoD: US Government L5 (DOD)
+ * - China: Microsoft Graph China operated by 21Vianet
+ * - Custom: A custom Graph base URL (e.g. a proxy or a local Graph stand-in)
+ */
+export type CloudEnvironment = 'Public' | 'USGov' | 'USGovHigh' | 'DoD' | 'China' | 'Custom';
+
+/**
+ * Endpoints used to talk to a cloud
+ */
+export interface CloudEndpoints {
+  cloud: CloudEnvironment;
+  /** Base URL for Graph REST calls, without trailing slash */
+  graphBaseUrl: string;
+  /** Azure AD authority host used to acquire tokens */
+  authorityHost: string;
+  /** Resource prefix for Graph permission scopes */
+  scopeResource: string;
+}
+
+/**
+ * Well-known national cloud endpoints
+ * See https://learn.microsoft.com/en-us/graph/deployments
+ */
+const NATIONAL_CLOUDS: Record<Exclude<CloudEnvironment, 'Custom'>, Omit<CloudEndpoints, 'cloud'>> = {
+  Public: {
+    graphBaseUrl: 'https://graph.microsoft.com',
+    authorityHost: AzureAuthorityHosts.AzurePublicCloud,
+    scopeResource: 'https://graph.microsoft.com',
+  },
+  USGov: {
+    graphBaseUrl: 'https://graph.microsoft.com',
+    authorityHost: AzureAuthorityHosts.AzurePublicCloud,
+    scopeResource: 'https://graph.microsoft.com',
+  },
+  USGovHigh: {
+    graphBaseUrl: 'https://graph.microsoft.us',
+    authorityHost: AzureAuthorityHosts.AzureGovernment,
+    scopeResource: 'https://graph.microsoft.us',
+  },
+  DoD: {
+    graphBaseUrl: 'https://dod-graph.microsoft.us',
+    authorityHost: AzureAuthorityHosts.AzureGovernment,
+    scopeResource: 'https://dod-graph.microsoft.us',
+  },
+  China: {
+    graphBaseUrl: 'https://microsoftgraph.chinacloudapi.cn',
+    authorityHost: AzureAuthorityHosts.AzureChina,
+    scopeResource: 'https://microsoftgraph.chinacloudapi.cn',
+  },
+};
+
+export const CLOUD_ENVIRONMENTS = Object.keys(NATIONAL_CLOUDS) as Exclude<CloudEnvironment, 'Custom'>[];
+
+/**
+ * Normalize and validate a base URL (http/https only, no trailing slash)
+ */
+function normalizeBaseUrl(value: string, settingName: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(value);
+  } catch {
+    throw new ConfigurationError(`${settingName} must be a valid URL`, {
+      setting: settingName,
+      value,
+    });
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new ConfigurationError(`${settingName} must use http or https`, {
+      setting: settingName,
+      value,
+    });
+  }
+
+  return `${parsed.origin}${parsed.pathname}`.replace(/\/+$/, '');
+}
+
+/**
+ * Resolve cloud endpoints from a cloud name or a custom Graph base URL
+ *
+ * @param cloud - Cloud name (case-insensitive) or a custom Graph base URL. Defaults to Public.
+ * @param authorityHost - Optional authority host override
+ */
+export function resolveCloudEndpoints(cloud?: string, authorityHost?: string): CloudEndpoints {
+  const value = cloud?.trim() || 'Public';
+  const authorityOverride = authorityHost
+    ? normalizeBaseUrl(authorityHost, 'AZURE_AUTHORITY_HOST')
+    : undefined;
+
+  // A URL means a custom Graph host. Tokens are still issued for the public
+  // Graph resource, so a proxy or a local stand-in accepts the same scopes.
+  if (/^https?:\/\//i.test(value)) {
+    return {
+      cloud: 'Custom',
+      graphBaseUrl: normalizeBaseUrl(value, 'M365_CLOUD'),
+      authorityHost: authorityOverride || NATIONAL_CLOUDS.Public.authorityHost,
+      scopeResource: NATIONAL_CLOUDS.Public.scopeResource,
+    };
+  }
+
+  const name = CLOUD_ENVIRONMENTS.find(c => c.toLowerCase() === value.toLowerCase());
+  if (!name) {
+    throw new ConfigurationError(
+      `Unknown cloud '${value}'. Must be one of: ${CLOUD_ENVIRONMENTS.join(', ')}, or a custom Graph base URL`,
+      { setting: 'M365_CLOUD', value }
+    );
+  }
+
+  return {
+    cloud: name,
+    ...NATIONAL_CLOUDS[name],
+    ...(authorityOverride ? { authorityHost: authorityOverride } : {}),
+  };
+}
+
+// Active cloud endpoints (resolved lazily from the settings)
+let activeEndpoints: CloudEndpoints | null = null;
+
+/**
+ * Get the active cloud endpoints
+ * Resolved from M365_CLOUD and AZURE_AUTHORITY_HOST (or the profile's cloud and
+ * authorityHost) on first use
+ */
+export function getCloudEndpoints(): CloudEndpoints {
+  if (!activeEndpoints) {
+    const { cloud, authorityHost } = getSettings();
+    activeEndpoints = resolveCloudEndpoints(cloud, authorityHost);
+    info('Resolved cloud endpoints', { ...activeEndpoints });
+  }
+  return activeEndpoints;
+}
+
+/**
+ * Override the active cloud endpoints
+ */
+export function setCloudEndpoints(endpoints: CloudEndpoints): void {
+  activeEndpoints = endpoints;
+  info('Cloud endpoints updated', { ...endpoints });
+}
+
+/**
+ * Reset the active cloud endpoints so they are resolved again on next use
+ */
+export function resetCloudEndpoints(): void {
+  activeEndpoints = null;
+}
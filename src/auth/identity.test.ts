@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { serializeAuthenticationRecord } from '@azure/identity';
+
+function conversations(id: string) {
+  return {
+    activeConversationId: id,
+    conversations: [{
+      id,
+      displayName: 'Planning',
+      createdDateTime: '2025-01-01T00:00:00Z',
+      turnCount: 1,
+      lastUsedDateTime: '2025-01-01T00:00:00Z',
+      messages: [],
+    }],
+  };
+}
+
+describe('logout', () => {
+  let homeDir: string;
+  const previousEnv = { ...process.env };
+
+  beforeEach(() => {
+    homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'm365-home-'));
+    process.env.HOME = homeDir;
+    process.env.USERPROFILE = homeDir;
+    process.env.M365_CONFIG_DIR = path.join(homeDir, 'config');
+    delete process.env.AUTH_METHOD;
+
+    // Start from fresh module state, as after a server restart
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    process.env = { ...previousEnv };
+    fs.rmSync(homeDir, { recursive: true, force: true });
+  });
+
+  it('forgets the conversations of the signed-in account when it is the first call after a restart', async () => {
+    // Left behind by the previous run: the sign-in record and conversations of two accounts
+    const authRecordPath = path.join(homeDir, '.IdentityService', 'm365-copilot-mcp-auth.json');
+    fs.mkdirSync(path.dirname(authRecordPath), { recursive: true });
+    fs.writeFileSync(authRecordPath, serializeAuthenticationRecord({
+      authority: 'login.microsoftonline.com',
+      homeAccountId: 'megan.contoso',
+      clientId: 'client',
+      tenantId: 'contoso',
+      username: 'megan@contoso.com',
+    }));
+    const { loadConversationStore, saveConversationStore } = await import('../tools/conversationStore.js');
+    saveConversationStore({
+      version: 2,
+      accounts: { 'megan.contoso': conversations('c1'), 'alex.contoso': conversations('c2') },
+    });
+
+    const { logout } = await import('./identity.js');
+    logout();
+
+    expect(fs.existsSync(authRecordPath)).toBe(false);
+    expect(Object.keys(loadConversationStore().accounts)).toEqual(['alex.contoso']);
+  });
+});
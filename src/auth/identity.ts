@@ -16,8 +16,15 @@ import {
   deserializeAuthenticationRecord,
 } from '@azure/identity';
 import { cachePersistencePlugin } from '@azure/identity-cache-persistence';
-import { info, warn, error as logError } from '../utils/logger.js';
+import { debug, info, warn, error as logError } from '../utils/logger.js';
 import { AuthenticationError, ConfigurationError } from '../utils/errors.js';
+import { getCloudEndpoints } from './cloud.js';
+import { getConfigFile, getSettings } from '../config/settings.js';
+import { clearResponseCache, getResponseCache } from '../utils/cache.js';
+import { clearConversationCache } from '../tools/chat.js';
+import { getConversationStorePath } from '../tools/conversationStore.js';
+import { clearDocumentResources } from '../resources/documents.js';
+import { Caller, OnBehalfOfTokenProvider, getCaller, validateAccessToken } from './obo.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -30,7 +37,7 @@ useIdentityPlugin(cachePersistencePlugin);
  * - InteractiveBrowser: Opens a browser window for authentication (requires GUI)
  * - DeviceCode: Shows a code and URL for authentication on any device (works in headless environments)
  */
-export type AuthMethod = 'InteractiveBrowser' | 'DeviceCode';
+export type AuthMethod = 'InteractiveBrowser' | 'DeviceCode' | 'OnBehalfOf';
 
 /**
  * Azure AD configuration interface
@@ -39,7 +46,85 @@ export interface AzureConfig {
   tenantId?: string;
   clientId?: string;
   clientSecret?: string;
+  /** PEM certificate and key of the app, the alternative to clientSecret for OnBehalfOf */
+  certificatePath?: string;
+  /** Audiences accepted in caller tokens (OnBehalfOf; default: clientId and api://clientId) */
+  tokenAudiences?: string[];
   authMethod?: AuthMethod;
+  /** Account to preselect on the sign-in page (InteractiveBrowser only) */
+  loginHint?: string;
+}
+
+/**
+ * Signed-in account, as recorded after the first sign-in
+ */
+export interface AccountInfo {
+  username: string;
+  tenantId: string;
+  homeAccountId: string;
+}
+
+/**
+ * Whether the encrypted token cache has been seen working in this process
+ */
+export type TokenPersistenceState = 'unverified' | 'working' | 'unavailable';
+
+/**
+ * Errors raised when the OS store behind the persistent token cache can't be used
+ */
+const PERSISTENCE_ERROR_PATTERN = /keyring|libsecret|keychain|dpapi|persistence/i;
+
+/**
+ * Cached tokens are used until this close to expiry, and refreshed in the background from then on
+ */
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Shortest wait before a background refresh, and between retries of a failed one
+ */
+const MIN_REFRESH_DELAY_MS = 30 * 1000;
+
+/**
+ * Credentials that can sign in interactively when silent acquisition fails
+ */
+type InteractiveCredential = InteractiveBrowserCredential | DeviceCodeCredential;
+
+/**
+ * Error raised by a credential with disableAutomaticAuthentication when the user must sign in
+ */
+function isAuthenticationRequired(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AuthenticationRequiredError';
+}
+
+/**
+ * Access token held in memory, for status reports
+ */
+export interface TokenStatus {
+  scopes: string[];
+  expiresAt: string;
+  expiresInSeconds: number;
+  /** Delegated permissions in the token (scp claim), or null if it can't be read */
+  grantedPermissions: string[] | null;
+  /** When the token is refreshed in the background */
+  refreshAt?: string;
+  /** Why the last background refresh failed; the next tool call may have to sign in again */
+  refreshWarning?: string;
+}
+
+/**
+ * Read the delegated permissions from an access token without validating it
+ */
+function getGrantedPermissions(token: string): string[] | null {
+  const payload = token.split('.')[1];
+  if (!payload) {
+    return null;
+  }
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    return typeof claims.scp === 'string' ? claims.scp.split(' ').filter(Boolean) : null;
+  } catch {
+    return null;
+  }
 }
 
 /**
@@ -47,18 +132,29 @@ export interface AzureConfig {
  */
 export class AuthenticationManager {
   private credential: TokenCredential | null = null;
+  private onBehalfOf: OnBehalfOfTokenProvider | null = null;
   private config: AzureConfig;
   private tokenCache: Map<string, { token: AccessToken; expiresAt: number }> = new Map();
+  /** Token requests in flight per scope set, shared by concurrent callers */
+  private pendingTokens = new Map<string, Promise<string>>();
+  /** Interactive sign-ins run one at a time */
+  private interaction: Promise<unknown> = Promise.resolve();
+  private refreshTimers = new Map<string, { timer: NodeJS.Timeout; refreshAt: number }>();
+  private refreshWarnings = new Map<string, string>();
   private authRecord: AuthenticationRecord | null = null;
+  private persistenceState: TokenPersistenceState = 'unverified';
 
+  /**
+   * @param config - Overrides for the configured settings (environment variables and profile)
+   */
   constructor(config?: AzureConfig) {
-    this.config = config || this.loadConfigFromEnv();
+    this.config = { ...this.loadConfigFromSettings(), ...config };
   }
 
   /**
    * Get the path to the authentication record file
    */
-  private getAuthRecordPath(): string {
+  public getAuthRecordPath(): string {
     const homeDir = os.homedir();
     const authDir = path.join(homeDir, '.IdentityService');
     if (!fs.existsSync(authDir)) {
@@ -111,30 +207,34 @@ export class AuthenticationManager {
   /**
    * Get the redirect URI for interactive browser authentication
    * Defaults to http://localhost (Azure AD ignores port for localhost URIs)
-   * Can be overridden via REDIRECT_URI environment variable
+   * Can be overridden via REDIRECT_URI or the profile's redirectUri
    */
   private getRedirectUri(): string {
-    return process.env.REDIRECT_URI || 'http://localhost';
+    return getSettings().redirectUri || 'http://localhost';
   }
 
   /**
-   * Load configuration from environment variables
+   * Load configuration from the active settings (environment variables over profile)
    * Uses default multi-tenant app registration with option to override
    */
-  private loadConfigFromEnv(): AzureConfig {
+  private loadConfigFromSettings(): AzureConfig {
     // Default ClientID for the registered multi-tenant app
-    // Can be overridden via AZURE_CLIENT_ID environment variable
+    // Can be overridden via AZURE_CLIENT_ID or the profile's clientId
     const DEFAULT_CLIENT_ID = 'f44ab954-9e38-4330-aa49-e93d73ab0ea6';
 
     // Default to 'common' for multi-tenant support
-    // Can be overridden via AZURE_TENANT_ID environment variable for single-tenant scenarios
+    // Can be overridden via AZURE_TENANT_ID or the profile's tenantId for single-tenant scenarios
     const DEFAULT_TENANT_ID = 'common';
 
+    const settings = getSettings();
     return {
-      tenantId: process.env.AZURE_TENANT_ID || DEFAULT_TENANT_ID,
-      clientId: process.env.AZURE_CLIENT_ID || DEFAULT_CLIENT_ID,
+      tenantId: settings.tenantId || DEFAULT_TENANT_ID,
+      clientId: settings.clientId || DEFAULT_CLIENT_ID,
+      // Secrets stay out of the config file
       clientSecret: process.env.AZURE_CLIENT_SECRET,
-      authMethod: (process.env.AUTH_METHOD as AuthMethod) || 'InteractiveBrowser',
+      certificatePath: process.env.AZURE_CLIENT_CERTIFICATE_PATH,
+      tokenAudiences: process.env.M365_OBO_AUDIENCE?.split(',').map(audience => audience.trim()).filter(Boolean),
+      authMethod: settings.authMethod || 'InteractiveBrowser',
     };
   }
 
@@ -170,6 +270,18 @@ export class AuthenticationManager {
         );
       }
 
+      if (authMethod === 'OnBehalfOf') {
+        // Callers bring their own tokens; there is no local sign-in or token cache file
+        this.onBehalfOf ??= new OnBehalfOfTokenProvider({
+          clientId,
+          clientSecret,
+          certificatePath: this.config.certificatePath,
+          authorityHost: getCloudEndpoints().authorityHost,
+        });
+        info('Initialized on-behalf-of token exchange', { credential: clientSecret ? 'client secret' : 'certificate' });
+        return;
+      }
+
       // Try to load authentication record from disk
       const authRecord = this.loadAuthRecord();
       if (authRecord) {
@@ -203,13 +315,18 @@ export class AuthenticationManager {
     authRecord: AuthenticationRecord | null
   ): InteractiveBrowserCredential {
     const redirectUri = this.getRedirectUri();
-    info('Creating InteractiveBrowserCredential', { redirectUri });
+    const { authorityHost } = getCloudEndpoints();
+    info('Creating InteractiveBrowserCredential', { redirectUri, authorityHost });
 
     return new InteractiveBrowserCredential({
       tenantId,
       clientId,
       redirectUri,
+      authorityHost,
+      loginHint: this.config.loginHint,
       authenticationRecord: authRecord || undefined,
+      // getToken() stays silent; sign-in prompts only come from authenticate() (see requestToken)
+      disableAutomaticAuthentication: true,
       tokenCachePersistenceOptions: {
         enabled: true,
         name: 'm365-copilot-mcp-cache',
@@ -225,13 +342,16 @@ export class AuthenticationManager {
     clientId: string,
     authRecord: AuthenticationRecord | null
   ): DeviceCodeCredential {
-    info('Creating DeviceCodeCredential (for headless environments)');
+    const { authorityHost } = getCloudEndpoints();
+    info('Creating DeviceCodeCredential (for headless environments)', { authorityHost });
 
     return new DeviceCodeCredential({
       tenantId,
       clientId,
+      authorityHost,
       userPromptCallback: this.deviceCodeCallback.bind(this),
       authenticationRecord: authRecord || undefined,
+      disableAutomaticAuthentication: true,
       tokenCachePersistenceOptions: {
         enabled: true,
         name: 'm365-copilot-mcp-cache',
@@ -266,43 +386,47 @@ export class AuthenticationManager {
 
   /**
    * Get access token for specified scopes
-   * Supports automatic fallback from InteractiveBrowser to DeviceCode
+   * Supports automatic fallback from InteractiveBrowser to DeviceCode.
+   * Concurrent calls for the same scopes share one request, so they never
+   * start more than one sign-in.
    */
   public async getAccessToken(scopes: string[]): Promise<string> {
+    if (this.onBehalfOf) {
+      return this.onBehalfOf.getToken(this.requireCaller(), scopes);
+    }
+
     if (!this.credential) {
       throw new AuthenticationError('Authentication not initialized. Call initialize() first.');
     }
 
-    const scopeKey = scopes.join(',');
+    // Tokens are cached per scope set, whatever order the scopes are asked in
+    const scopeKey = [...scopes].sort().join(',');
 
     // Check cache
     const cached = this.tokenCache.get(scopeKey);
-    if (cached && cached.expiresAt > Date.now() + 5 * 60 * 1000) {
+    if (cached && cached.expiresAt > Date.now() + TOKEN_REFRESH_MARGIN_MS) {
       // Token is valid for at least 5 more minutes
       info('Using cached access token', { scopes });
       return cached.token.token;
     }
 
+    let pending = this.pendingTokens.get(scopeKey);
+    if (!pending) {
+      pending = this.acquireToken(scopes, scopeKey).finally(() => this.pendingTokens.delete(scopeKey));
+      this.pendingTokens.set(scopeKey, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Request a token from the credential and cache it
+   */
+  private async acquireToken(scopes: string[], scopeKey: string): Promise<string> {
     try {
       info('Requesting new access token from Azure AD...', { scopes });
 
-      if (this.credential instanceof InteractiveBrowserCredential) {
-        info('  This may open a browser window for interactive login');
-      } else if (this.credential instanceof DeviceCodeCredential) {
-        info('  Using device code flow - check console for authentication instructions');
-      }
-
-      const tokenResponse = await this.credential.getToken(scopes);
-
-      if (!tokenResponse) {
-        throw new AuthenticationError('Failed to obtain access token');
-      }
-
-      // Cache the token
-      this.tokenCache.set(scopeKey, {
-        token: tokenResponse,
-        expiresAt: tokenResponse.expiresOnTimestamp,
-      });
+      const tokenResponse = await this.requestToken(scopes);
+      this.storeToken(scopeKey, scopes, tokenResponse);
 
       info('✓ Access token obtained successfully', {
         scopes,
@@ -314,6 +438,10 @@ export class AuthenticationManager {
       const errorMsg = error instanceof Error ? error.message : String(error);
       const errorName = error instanceof Error ? error.name : 'Unknown';
 
+      if (PERSISTENCE_ERROR_PATTERN.test(errorMsg)) {
+        this.persistenceState = 'unavailable';
+      }
+
       // Check if we should fallback to DeviceCode
       if (this.credential instanceof InteractiveBrowserCredential && this.shouldFallbackToDeviceCode(error)) {
         warn('InteractiveBrowser authentication failed - falling back to DeviceCode flow');
@@ -333,17 +461,8 @@ export class AuthenticationManager {
 
         // Retry with DeviceCode
         try {
-          const tokenResponse = await this.credential.getToken(scopes);
-
-          if (!tokenResponse) {
-            throw new AuthenticationError('Failed to obtain access token with DeviceCode');
-          }
-
-          // Cache the token
-          this.tokenCache.set(scopeKey, {
-            token: tokenResponse,
-            expiresAt: tokenResponse.expiresOnTimestamp,
-          });
+          const tokenResponse = await this.requestToken(scopes);
+          this.storeToken(scopeKey, scopes, tokenResponse);
 
           info('✓ Access token obtained successfully via DeviceCode', {
             scopes,
@@ -373,13 +492,196 @@ export class AuthenticationManager {
     }
   }
 
+  /**
+   * Get a token silently, or sign in (or consent to new permissions) if that fails
+   * Sign-ins are queued, and each one first retries silently, since the sign-in
+   * before it may already have granted what it needs.
+   */
+  private async requestToken(scopes: string[]): Promise<AccessToken> {
+    const credential = this.credential!;
+    const silent = async (): Promise<AccessToken | null> => {
+      try {
+        const token = await credential.getToken(scopes);
+        if (!token) {
+          throw new AuthenticationError('Failed to obtain access token');
+        }
+        return token;
+      } catch (error) {
+        if (isAuthenticationRequired(error)) {
+          return null;
+        }
+        throw error;
+      }
+    };
+
+    const token = await silent();
+    if (token) {
+      return token;
+    }
+
+    const signIn = this.interaction.then(async () => {
+      const afterWait = await silent();
+      if (afterWait) {
+        return afterWait;
+      }
+
+      if (credential instanceof InteractiveBrowserCredential) {
+        info('  This may open a browser window for interactive login');
+      } else if (credential instanceof DeviceCodeCredential) {
+        info('  Using device code flow - check console for authentication instructions');
+      }
+      const authRecord = await (credential as InteractiveCredential).authenticate(scopes);
+      if (authRecord) {
+        this.saveAuthRecord(authRecord);
+      }
+
+      const signedIn = await silent();
+      if (!signedIn) {
+        throw new AuthenticationError('Signed in, but no access token could be obtained');
+      }
+      return signedIn;
+    });
+    this.interaction = signIn.catch(() => undefined);
+    return signIn;
+  }
+
+  /**
+   * Cache a token and schedule its background refresh
+   */
+  private storeToken(scopeKey: string, scopes: string[], token: AccessToken): void {
+    // A token from the credential also means its persistent cache could be used
+    this.persistenceState = 'working';
+    this.tokenCache.set(scopeKey, { token, expiresAt: token.expiresOnTimestamp });
+    this.refreshWarnings.delete(scopeKey);
+
+    const dueAt = Math.min(token.refreshAfterTimestamp ?? Infinity, token.expiresOnTimestamp - TOKEN_REFRESH_MARGIN_MS);
+    this.scheduleRefresh(scopeKey, scopes, dueAt);
+  }
+
+  private scheduleRefresh(scopeKey: string, scopes: string[], dueAt: number): void {
+    clearTimeout(this.refreshTimers.get(scopeKey)?.timer);
+    const refreshAt = Math.max(dueAt, Date.now() + MIN_REFRESH_DELAY_MS);
+    const timer = setTimeout(() => void this.refreshInBackground(scopeKey, scopes), refreshAt - Date.now());
+    // Refresh timers must not keep the process alive
+    timer.unref();
+    this.refreshTimers.set(scopeKey, { timer, refreshAt });
+  }
+
+  /**
+   * Renew a cached token before it expires, without ever prompting
+   * Failures are logged as warnings and shown by m365copilotwhoami. A failed
+   * refresh is retried while the old token is still valid; if the user has to
+   * sign in again, the next tool call prompts as usual.
+   */
+  private async refreshInBackground(scopeKey: string, scopes: string[]): Promise<void> {
+    this.refreshTimers.delete(scopeKey);
+    const cached = this.tokenCache.get(scopeKey);
+    const credential = this.credential;
+    if (!cached || !credential || this.pendingTokens.has(scopeKey)) {
+      return;
+    }
+
+    try {
+      const token = await credential.getToken(scopes);
+      // The cache was cleared or the account switched while refreshing
+      if (this.tokenCache.get(scopeKey) !== cached || this.credential !== credential) {
+        return;
+      }
+      if (!token) {
+        throw new Error('no token returned');
+      }
+      if (token.expiresOnTimestamp <= cached.expiresAt) {
+        // The credential returned the same token; try again a little later
+        this.scheduleRefresh(scopeKey, scopes, Date.now() + MIN_REFRESH_DELAY_MS);
+        return;
+      }
+      this.storeToken(scopeKey, scopes, token);
+      info('Refreshed access token in the background', {
+        scopes,
+        expiresAt: new Date(token.expiresOnTimestamp).toISOString(),
+      });
+    } catch (error) {
+      if (this.tokenCache.get(scopeKey) !== cached || this.credential !== credential) {
+        return;
+      }
+      const message = isAuthenticationRequired(error)
+        ? 'Sign-in is required again; the next tool call that needs these permissions will prompt'
+        : `Background token refresh failed: ${error instanceof Error ? error.message : String(error)}`;
+      // Retries failing the same way are only worth a debug line
+      const log = this.refreshWarnings.get(scopeKey) === message ? debug : warn;
+      log(message, { scopes, expiresAt: new Date(cached.expiresAt).toISOString() });
+      this.refreshWarnings.set(scopeKey, message);
+
+      if (!isAuthenticationRequired(error) && cached.expiresAt - Date.now() > MIN_REFRESH_DELAY_MS) {
+        this.scheduleRefresh(scopeKey, scopes, Date.now() + MIN_REFRESH_DELAY_MS);
+      }
+    }
+  }
+
+  /**
+   * Stop refreshing tokens in the background
+   */
+  public stopBackgroundRefresh(): void {
+    for (const { timer } of this.refreshTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.refreshTimers.clear();
+  }
+
+  /**
+   * Check if the manager exchanges caller tokens (AUTH_METHOD=OnBehalfOf)
+   */
+  public isOnBehalfOf(): boolean {
+    return this.config.authMethod === 'OnBehalfOf';
+  }
+
+  /**
+   * Get the caller of the current request (OnBehalfOf)
+   * @throws AuthenticationError if the request did not come with a user token
+   */
+  private requireCaller(): Caller {
+    const caller = getCaller();
+    if (!caller) {
+      throw new AuthenticationError(
+        'On-behalf-of authentication needs the caller\'s access token. Send a bearer token to the HTTP transport.'
+      );
+    }
+    return caller;
+  }
+
+  /**
+   * Validate an access token sent by an HTTP caller (OnBehalfOf)
+   * @throws AuthenticationError if the token is not a valid user token for this app
+   */
+  public async validateCallerToken(token: string): Promise<Caller> {
+    return validateAccessToken(token, {
+      tenantId: this.config.tenantId!,
+      clientId: this.config.clientId!,
+      authorityHost: getCloudEndpoints().authorityHost,
+      audiences: this.config.tokenAudiences,
+    });
+  }
+
+  /**
+   * Forget the tokens cached for the current caller (OnBehalfOf)
+   */
+  public forgetCaller(): void {
+    const caller = getCaller();
+    if (this.onBehalfOf && caller) {
+      this.onBehalfOf.forget(caller);
+      info('Cleared cached tokens of the caller', { tenantId: caller.tenantId });
+    }
+  }
 
   /**
    * Clear token cache (in-memory only)
    */
   public clearCache(): void {
     info('Clearing in-memory token cache');
+    this.stopBackgroundRefresh();
     this.tokenCache.clear();
+    this.refreshWarnings.clear();
+    this.onBehalfOf?.clear();
   }
 
   /**
@@ -390,23 +692,55 @@ export class AuthenticationManager {
     configured: boolean;
     credentialType: string | null;
     cacheSize: number;
+    persistence: TokenPersistenceState;
   } {
     return {
-      initialized: this.credential !== null,
+      initialized: this.credential !== null || this.onBehalfOf !== null,
       configured: this.isConfigured(),
-      credentialType: this.credential ? this.credential.constructor.name : null,
-      cacheSize: this.tokenCache.size,
+      credentialType: this.onBehalfOf ? 'OnBehalfOfCredential' : this.credential ? this.credential.constructor.name : null,
+      cacheSize: this.tokenCache.size + (this.onBehalfOf?.size ?? 0),
+      persistence: this.persistenceState,
     };
   }
 
+  /**
+   * Describe the access tokens held in memory (for the current caller in OnBehalfOf mode)
+   */
+  public getTokenStatus(): TokenStatus[] {
+    const caller = getCaller();
+    const entries: { scopes: string[]; token: string; expiresAt: number; refreshAt?: number; refreshWarning?: string }[] =
+      this.onBehalfOf
+        ? (caller ? this.onBehalfOf.entries(caller) : [])
+        : [...this.tokenCache.entries()].map(([key, { token, expiresAt }]) => ({
+            scopes: key.split(','),
+            token: token.token,
+            expiresAt,
+            refreshAt: this.refreshTimers.get(key)?.refreshAt,
+            refreshWarning: this.refreshWarnings.get(key),
+          }));
+
+    return entries.map(({ scopes, token, expiresAt, refreshAt, refreshWarning }) => ({
+      scopes,
+      expiresAt: new Date(expiresAt).toISOString(),
+      expiresInSeconds: Math.max(0, Math.round((expiresAt - Date.now()) / 1000)),
+      grantedPermissions: getGrantedPermissions(token),
+      ...(refreshAt ? { refreshAt: new Date(refreshAt).toISOString() } : {}),
+      ...(refreshWarning ? { refreshWarning } : {}),
+    }));
+  }
+
+
   /**
    * Get current configuration (without secrets)
    */
-  public getConfig(): Omit<AzureConfig, 'clientSecret'> {
+  public getConfig(): Omit<AzureConfig, 'clientSecret'> & { cloud: string; authorityHost: string } {
+    const { cloud, authorityHost } = getCloudEndpoints();
     return {
       tenantId: this.config.tenantId,
       clientId: this.config.clientId,
       authMethod: this.config.authMethod,
+      cloud,
+      authorityHost,
     };
   }
 
@@ -419,6 +753,41 @@ export class AuthenticationManager {
     return !!(tenantId && clientId);
   }
 
+  /**
+   * Get an identifier for the signed-in account
+   * Falls back to the tenant and client ID before the first sign-in has been recorded
+   */
+  public getAccountId(): string {
+    const caller = this.isOnBehalfOf() ? getCaller() : undefined;
+    if (caller) {
+      return `${caller.userId}.${caller.tenantId}`;
+    }
+    return this.getAccount()?.homeAccountId || `${this.config.tenantId}/${this.config.clientId}`;
+  }
+
+  /**
+   * Get the signed-in account, or null before the first sign-in has been recorded
+   * In OnBehalfOf mode, this is the caller of the current request.
+   */
+  public getAccount(): AccountInfo | null {
+    if (this.isOnBehalfOf()) {
+      const caller = getCaller();
+      return caller
+        ? { username: caller.username ?? '', tenantId: caller.tenantId, homeAccountId: `${caller.userId}.${caller.tenantId}` }
+        : null;
+    }
+
+    // The record is read on first sign-in; read it now if asked before that
+    if (!this.authRecord) {
+      this.loadAuthRecord();
+    }
+    if (!this.authRecord) {
+      return null;
+    }
+    const { username, tenantId, homeAccountId } = this.authRecord;
+    return { username, tenantId, homeAccountId };
+  }
+
   /**
    * Check if we have an authentication record
    */
@@ -466,21 +835,55 @@ let authManager: AuthenticationManager | null = null;
 // Global authentication state
 let isAuthenticated = false;
 
+// Sign-in in progress, shared by concurrent first tool calls
+let signIn: Promise<void> | null = null;
+
 /**
- * Required Microsoft Graph API scopes for M365 Copilot MCP Server
- * These scopes provide access to user data needed for M365 Copilot integration
+ * Microsoft Graph API permissions used by the built-in tools together
+ * Each tool declares the subset it needs, and consent is requested when a tool
+ * first needs a permission. With consentUpfront, all of them are consented to
+ * at the first sign-in instead.
  */
-export const REQUIRED_SCOPES = [
-  'https://graph.microsoft.com/Sites.Read.All',
-  'https://graph.microsoft.com/Mail.Read',
-  'https://graph.microsoft.com/People.Read.All',
-  'https://graph.microsoft.com/OnlineMeetingTranscript.Read.All',
-  'https://graph.microsoft.com/Chat.Read',
-  'https://graph.microsoft.com/ChannelMessage.Read.All',
-  'https://graph.microsoft.com/ExternalItem.Read.All',
-  'https://graph.microsoft.com/Files.Read.All',
+export const REQUIRED_PERMISSIONS = [
+  'Sites.Read.All',
+  'Mail.Read',
+  'People.Read.All',
+  'OnlineMeetingTranscript.Read.All',
+  'Chat.Read',
+  'ChannelMessage.Read.All',
+  'ExternalItem.Read.All',
+  'Files.Read.All',
 ];
 
+/**
+ * Permission requested to sign in when no tool needs anything yet (m365copilotlogin)
+ */
+export const SIGN_IN_PERMISSIONS = ['User.Read'];
+
+/**
+ * Build fully-qualified Graph scopes for the active cloud
+ * e.g. 'Files.Read.All' -> 'https://graph.microsoft.us/Files.Read.All' in GCC High
+ */
+export function toGraphScopes(permissions: readonly string[]): string[] {
+  const { scopeResource } = getCloudEndpoints();
+  return permissions.map(permission => `${scopeResource}/${permission}`);
+}
+
+/**
+ * Required Microsoft Graph API scopes for the active cloud
+ */
+export function getRequiredScopes(): string[] {
+  return toGraphScopes(REQUIRED_PERMISSIONS);
+}
+
+/**
+ * Scopes to sign in with for a tool's permissions
+ * Only the tool's own permissions, unless consentUpfront asks for all of them at once.
+ */
+function getSignInScopes(permissions: readonly string[]): string[] {
+  return getSettings().consentUpfront ? getRequiredScopes() : toGraphScopes(permissions);
+}
+
 /**
  * Get or create the singleton authentication manager instance
  */
@@ -495,8 +898,10 @@ export function getAuthManager(config?: AzureConfig): AuthenticationManager {
  * Reset the authentication manager (useful for testing)
  */
 export function resetAuthManager(): void {
+  authManager?.stopBackgroundRefresh();
   authManager = null;
   isAuthenticated = false;
+  signIn = null;
 }
 
 /**
@@ -527,24 +932,156 @@ function getTokenCachePath(): string {
   }
 }
 
+/**
+ * Location of a local cache file
+ */
+export interface CacheFileStatus {
+  path: string;
+  exists: boolean;
+}
+
+/**
+ * Authentication state as reported by the status tool
+ */
+export interface AuthenticationStatus {
+  signedIn: boolean;
+  account: AccountInfo | null;
+  authMethod: AuthMethod | undefined;
+  credentialType: string | null;
+  tenantId: string | undefined;
+  clientId: string | undefined;
+  cloud: string;
+  authorityHost: string;
+  tokens: TokenStatus[];
+  requiredPermissions: string[];
+  /** Permissions granted in the held tokens, or null if no token can be read */
+  grantedPermissions: string[] | null;
+  /** Permissions of the built-in tools not granted yet; a tool asks for consent when first used */
+  missingPermissions: string[] | null;
+  files: Record<string, CacheFileStatus>;
+  tokenPersistence: {
+    persisted: boolean;
+    encrypted: boolean;
+    protection: string;
+    state: TokenPersistenceState | 'not used';
+  };
+}
+
+function describeFile(filePath: string): CacheFileStatus {
+  return { path: filePath, exists: fs.existsSync(filePath) };
+}
+
+/**
+ * How @azure/identity-cache-persistence protects the token cache on this platform
+ * Unencrypted storage is never allowed, so without the OS store tokens are not persisted.
+ */
+function describeTokenCacheProtection(): { encrypted: boolean; protection: string } {
+  switch (process.platform) {
+    case 'win32':
+      return { encrypted: true, protection: 'Windows DPAPI (current user)' };
+    case 'darwin':
+      return { encrypted: true, protection: 'macOS Keychain' };
+    case 'linux':
+      return { encrypted: true, protection: 'Linux keyring (libsecret)' };
+    default:
+      return { encrypted: false, protection: `not supported on ${process.platform}` };
+  }
+}
+
+/**
+ * Report who is signed in and how, without signing in
+ */
+export function getAuthenticationStatus(): AuthenticationStatus {
+  const manager = getAuthManager();
+  const { credentialType, persistence } = manager.getAuthStatus();
+  const config = manager.getConfig();
+  const tokens = manager.getTokenStatus();
+  const onBehalfOf = manager.isOnBehalfOf();
+
+  const responseCachePath = getResponseCache().filePath;
+  const readable = tokens.filter(token => token.grantedPermissions !== null);
+  const granted = readable.length > 0 ? [...new Set(readable.flatMap(token => token.grantedPermissions!))] : null;
+  const grantedLower = granted?.map(permission => permission.toLowerCase());
+
+  return {
+    signedIn: onBehalfOf ? tokens.length > 0 : isAuthenticated,
+    account: manager.getAccount(),
+    authMethod: config.authMethod,
+    credentialType,
+    tenantId: config.tenantId,
+    clientId: config.clientId,
+    cloud: config.cloud,
+    authorityHost: config.authorityHost,
+    tokens,
+    requiredPermissions: [...REQUIRED_PERMISSIONS],
+    grantedPermissions: granted,
+    missingPermissions: grantedLower
+      ? REQUIRED_PERMISSIONS.filter(permission => !grantedLower.includes(permission.toLowerCase()))
+      : null,
+    files: {
+      ...(onBehalfOf
+        ? {}
+        : {
+            authenticationRecord: describeFile(manager.getAuthRecordPath()),
+            tokenCache: describeFile(getTokenCachePath()),
+          }),
+      conversations: describeFile(getConversationStorePath()),
+      ...(responseCachePath ? { responseCache: describeFile(responseCachePath) } : {}),
+      config: describeFile(getConfigFile()),
+    },
+    tokenPersistence: onBehalfOf
+      ? { persisted: false, encrypted: false, protection: 'none (tokens are kept in memory per user)', state: 'not used' }
+      : { persisted: true, ...describeTokenCacheProtection(), state: persistence },
+  };
+}
+
+/**
+ * Forget everything tied to the signed-in account
+ * Clears the in-memory tokens, the response cache, the remembered
+ * conversations and the document resources of every session, then resets
+ * the authentication manager. All of it happens
+ * synchronously, so no tool call sees one account's tokens together with
+ * another account's cached data. The next tool call signs in again.
+ * @param accountId - Account signing out, taken before its sign-in record was deleted
+ */
+function invalidateAccountState(accountId: string): void {
+  authManager?.clearCache();
+  clearResponseCache();
+  clearConversationCache(true, accountId);
+  clearDocumentResources();
+  resetAuthManager();
+  info('Cleared account state (tokens, cached responses, conversations, documents)');
+}
+
 /**
  * Logout - clears all cached credentials and authentication state
  * This function will:
  * 1. Delete the AuthenticationRecord file from disk
  * 2. Delete the persistent token cache file
- * 3. Clear in-memory token cache
- * 4. Reset the authentication manager singleton
- * 5. Reset the isAuthenticated flag
+ * 3. Clear in-memory tokens, cached responses and conversations
+ * 4. Reset the authentication manager singleton and the isAuthenticated flag
  *
- * Note: User must restart the MCP server for changes to take full effect
+ * The server keeps running; the next tool call prompts for a new sign-in.
  */
 export function logout(): void {
+  // On-behalf-of: only the caller's own tokens, cached responses and conversations are forgotten; other users keep theirs
+  if (getAuthManager().isOnBehalfOf()) {
+    getAuthManager().forgetCaller();
+    getResponseCache().clearAccount(getAuthManager().getAccountId());
+    clearDocumentResources(getAuthManager().getAccountId());
+    clearConversationCache(true);
+    return;
+  }
+
   try {
     info('Starting logout process');
 
     // Get current auth manager to access the auth record path
     const manager = authManager || new AuthenticationManager();
-    const authRecordPath = (manager as any).getAuthRecordPath();
+    const authRecordPath = manager.getAuthRecordPath();
+
+    // The account ID comes from the sign-in record, so read it before the record is deleted
+    const accountId = manager.getAccountId();
 
     // Delete the authentication record file if it exists
     if (fs.existsSync(authRecordPath)) {
@@ -563,15 +1100,8 @@ export function logout(): void {
       info('No persistent token cache file found to delete', { path: tokenCachePath });
     }
 
-    // Clear in-memory token cache if auth manager exists
-    if (authManager) {
-      authManager.clearCache();
-      info('Cleared in-memory token cache');
-    }
-
-    // Reset the authentication manager singleton
-    resetAuthManager();
-    info('Reset authentication manager');
+    // Tokens, cached responses and conversations belong to the account that is signing out
+    invalidateAccountState(accountId);
 
     info('Logout completed successfully');
   } catch (error) {
@@ -588,20 +1118,47 @@ export function logout(): void {
  * 3. Token will come from cache if available, or prompt user if needed
  * 4. On first authentication, save AuthenticationRecord for silent auth on restart
  *
+ * Concurrent first calls wait for the same sign-in instead of each starting one.
+ *
  * Per MCP specification for STDIO transport, authentication should be
  * lazy and use environment credentials/cached tokens when available.
+ *
+ * @param permissions - Permissions of the tool being called; only these are
+ * consented to at sign-in unless consentUpfront is set
  */
-export async function requireAuthentication(): Promise<void> {
+export async function requireAuthentication(permissions: readonly string[] = SIGN_IN_PERMISSIONS): Promise<void> {
   // Fast path: already authenticated
   if (isAuthenticated) {
     return;
   }
 
-  const authManager = getAuthManager();
+  const manager = getAuthManager();
 
+  // On-behalf-of: each caller has its own token, so there is no process-wide sign-in state
+  if (manager.isOnBehalfOf()) {
+    await manager.initialize();
+    await manager.getAccessToken(getSignInScopes(permissions));
+    return;
+  }
+
+  if (!signIn) {
+    const attempt = signInWith(manager, permissions).finally(() => {
+      if (signIn === attempt) {
+        signIn = null;
+      }
+    });
+    signIn = attempt;
+  }
+  await signIn;
+}
+
+/**
+ * Sign in with the scopes for the given permissions and mark the process as authenticated
+ */
+async function signInWith(manager: AuthenticationManager, permissions: readonly string[]): Promise<void> {
   try {
     // Initialize if not already done
-    if (!authManager.isConfigured()) {
+    if (!manager.isConfigured()) {
       throw new ConfigurationError(
         'Authentication not configured. Missing AZURE_TENANT_ID or AZURE_CLIENT_ID.',
         { configured: false }
@@ -609,17 +1166,23 @@ export async function requireAuthentication(): Promise<void> {
     }
 
     info('First tool call - initializing authentication');
-    await authManager.initialize();
+    await manager.initialize();
 
-    info('Obtaining access token with required Microsoft Graph API scopes (will use cached token if available)', { scopeCount: REQUIRED_SCOPES.length });
+    const signInScopes = getSignInScopes(permissions);
+    info('Obtaining access token with required Microsoft Graph API scopes (will use cached token if available)', { scopeCount: signInScopes.length });
     // This will use cached token if available, or prompt user to login
-    await authManager.getAccessToken(REQUIRED_SCOPES);
+    await manager.getAccessToken(signInScopes);
 
     // If this is the first time (no auth record), call authenticate to get the record
     // This ensures we can do silent authentication on next restart
-    if (!authManager.hasAuthRecord()) {
+    if (!manager.hasAuthRecord()) {
       info('First-time authentication - obtaining authentication record for future silent auth');
-      await authManager.ensureAuthRecord(REQUIRED_SCOPES);
+      await manager.ensureAuthRecord(signInScopes);
+    }
+
+    // The account may have been switched while signing in; that sign-in wins
+    if (manager !== authManager) {
+      throw new AuthenticationError('The account was switched while signing in. Please try again.');
     }
 
     // Mark as authenticated
@@ -634,3 +1197,48 @@ export async function requireAuthentication(): Promise<void> {
     );
   }
 }
+
+/**
+ * Options for signing in again without restarting the server
+ */
+export interface SignInOptions {
+  /** Account to preselect on the sign-in page (e.g. user@contoso.com) */
+  loginHint?: string;
+  /** Tenant to sign in to instead of the configured one */
+  tenantId?: string;
+}
+
+/**
+ * Sign out and sign in again, possibly as another account or in another tenant
+ * The previous account is logged out first (see logout()), so a failed sign-in
+ * never falls back to it. Overrides last until the next logout or sign-in
+ * settings change.
+ * @returns The newly signed-in account
+ * @throws AuthenticationError if the sign-in fails
+ */
+export async function switchAccount(options: SignInOptions = {}): Promise<AccountInfo> {
+  if (getAuthManager().isOnBehalfOf()) {
+    throw new ConfigurationError('Signing in is not available in on-behalf-of mode; every caller uses their own token', {
+      setting: 'AUTH_METHOD',
+    });
+  }
+  info('Switching account', { tenantId: options.tenantId, hasLoginHint: !!options.loginHint });
+  logout();
+
+  const overrides: AzureConfig = {};
+  if (options.tenantId) {
+    overrides.tenantId = options.tenantId;
+  }
+  if (options.loginHint) {
+    overrides.loginHint = options.loginHint;
+  }
+  const manager = getAuthManager(overrides);
+  await requireAuthentication();
+
+  const account = manager.getAccount();
+  if (!account) {
+    throw new AuthenticationError('Signed in, but the account could not be determined');
+  }
+  info('Switched account', { tenantId: account.tenantId });
+  return account;
+}
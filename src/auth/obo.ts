@@ -0,0 +1,353 @@
+/**
+ * On-behalf-of (OBO) authentication for shared deployments
+ * With AUTH_METHOD=OnBehalfOf, every HTTP caller sends its own Entra ID access
+ * token for this app. The token is validated here (signature, issuer, audience,
+ * lifetime) and exchanged for a Microsoft Graph token for the same user, using
+ * the app's client secret or certificate. Graph tokens are cached per user, and
+ * tool calls find their caller through an async context, so a token is never
+ * shared between users.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createPublicKey, verify, KeyObject, JsonWebKey } from 'crypto';
+import { OnBehalfOfCredential } from '@azure/identity';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { AuthenticationError, ConfigurationError } from '../utils/errors.js';
+import { debug, info } from '../utils/logger.js';
+
+/**
+ * User on whose behalf a request runs
+ */
+export interface Caller {
+  /** Object ID (oid) of the user */
+  userId: string;
+  /** Tenant that issued the caller's token (tid) */
+  tenantId: string;
+  username?: string;
+  /** The validated incoming access token, used as the OBO user assertion */
+  assertion: string;
+  /** Expiry of the incoming token (ms since epoch) */
+  expiresAt: number;
+}
+
+export interface AccessTokenValidationOptions {
+  /** Configured tenant; tokens from other tenants are rejected if it is a tenant ID */
+  tenantId: string;
+  clientId: string;
+  authorityHost: string;
+  /** Accepted audiences (default: the client ID and api://<client ID>) */
+  audiences?: string[];
+}
+
+export interface OnBehalfOfOptions {
+  clientId: string;
+  clientSecret?: string;
+  /** PEM file with the certificate and private key of the app registration */
+  certificatePath?: string;
+  authorityHost: string;
+}
+
+const CLOCK_SKEW_SECONDS = 120;
+const SIGNING_KEYS_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const SIGNING_KEYS_MIN_REFRESH_MS = 5 * 60 * 1000;
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const MAX_CACHED_TOKENS = 1000;
+const TENANT_GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Issuers of v1.0 access tokens (v2.0 tokens are issued by the authority host)
+ */
+const V1_ISSUER_HOSTS = ['https://sts.windows.net', 'https://sts.chinacloudapi.cn'];
+
+const callerStorage = new AsyncLocalStorage<Caller>();
+
+/**
+ * Run fn on behalf of a caller; getCaller() returns it in everything fn awaits
+ */
+export function runAsCaller<T>(caller: Caller | undefined, fn: () => T): T {
+  return caller ? callerStorage.run(caller, fn) : fn();
+}
+
+/**
+ * Get the caller of the current request, if it came in with a validated user token
+ */
+export function getCaller(): Caller | undefined {
+  return callerStorage.getStore();
+}
+
+/**
+ * Get the caller stored in the auth info of an MCP request (see transports/http.ts)
+ */
+export function getCallerFromAuthInfo(authInfo: AuthInfo | undefined): Caller | undefined {
+  const caller = authInfo?.extra?.caller as Caller | undefined;
+  return caller && typeof caller.userId === 'string' && typeof caller.assertion === 'string' ? caller : undefined;
+}
+
+/**
+ * Signing keys of the identity platform, refreshed daily and when a token
+ * names an unknown key (at most every few minutes)
+ */
+class SigningKeys {
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+  private pending: Promise<void> | null = null;
+
+  constructor(private readonly url: string) {}
+
+  async get(kid: string): Promise<KeyObject | undefined> {
+    const age = Date.now() - this.fetchedAt;
+    if (age > SIGNING_KEYS_MAX_AGE_MS || (!this.keys.has(kid) && age > SIGNING_KEYS_MIN_REFRESH_MS)) {
+      this.pending ??= this.refresh().finally(() => {
+        this.pending = null;
+      });
+      await this.pending;
+    }
+    return this.keys.get(kid);
+  }
+
+  private async refresh(): Promise<void> {
+    debug('Fetching token signing keys', { url: this.url });
+    let body: { keys?: (JsonWebKey & { kid?: string })[] };
+    try {
+      const response = await fetch(this.url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      body = await response.json();
+    } catch (error) {
+      throw new AuthenticationError(
+        `Could not fetch token signing keys: ${error instanceof Error ? error.message : String(error)}`,
+        { url: this.url }
+      );
+    }
+
+    const keys = new Map<string, KeyObject>();
+    for (const jwk of body.keys || []) {
+      if (jwk.kid && jwk.kty === 'RSA') {
+        keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+    }
+    this.keys = keys;
+    this.fetchedAt = Date.now();
+  }
+}
+
+const signingKeys = new Map<string, SigningKeys>();
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+  if (typeof value !== 'object' || value === null) {
+    throw new Error('not a JSON object');
+  }
+  return value;
+}
+
+function invalidToken(reason: string): AuthenticationError {
+  return new AuthenticationError(`Invalid access token: ${reason}`);
+}
+
+/**
+ * Validate an Entra ID access token sent by a caller
+ * @returns The user the token was issued to
+ * @throws AuthenticationError if the token is malformed, forged, expired or meant for another app
+ */
+export async function validateAccessToken(token: string, options: AccessTokenValidationOptions): Promise<Caller> {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw invalidToken('not a JWT');
+  }
+
+  let header: Record<string, unknown>;
+  let claims: Record<string, unknown>;
+  try {
+    header = decodeSegment(segments[0]);
+    claims = decodeSegment(segments[1]);
+  } catch {
+    throw invalidToken('malformed JWT');
+  }
+
+  if (header.alg !== 'RS256' || typeof header.kid !== 'string') {
+    throw invalidToken('unsupported signature algorithm');
+  }
+  const keysUrl = `${options.authorityHost}/${options.tenantId}/discovery/v2.0/keys`;
+  let keys = signingKeys.get(keysUrl);
+  if (!keys) {
+    keys = new SigningKeys(keysUrl);
+    signingKeys.set(keysUrl, keys);
+  }
+  const key = await keys.get(header.kid);
+  if (!key) {
+    throw invalidToken('unknown signing key');
+  }
+  const signed = Buffer.from(`${segments[0]}.${segments[1]}`);
+  if (!verify('RSA-SHA256', signed, key, Buffer.from(segments[2], 'base64url'))) {
+    throw invalidToken('bad signature');
+  }
+
+  const now = Date.now() / 1000;
+  if (typeof claims.exp !== 'number' || claims.exp < now - CLOCK_SKEW_SECONDS) {
+    throw invalidToken('expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf > now + CLOCK_SKEW_SECONDS) {
+    throw invalidToken('not yet valid');
+  }
+
+  const audiences = options.audiences?.length
+    ? options.audiences
+    : [options.clientId, `api://${options.clientId}`];
+  if (typeof claims.aud !== 'string' || !audiences.includes(claims.aud)) {
+    throw invalidToken(`audience must be one of: ${audiences.join(', ')}`);
+  }
+
+  const tenantId = claims.tid;
+  if (typeof tenantId !== 'string' || !TENANT_GUID_PATTERN.test(tenantId)) {
+    throw invalidToken('missing tenant');
+  }
+  const issuers = [
+    `${options.authorityHost}/${tenantId}/v2.0`,
+    ...V1_ISSUER_HOSTS.map(host => `${host}/${tenantId}/`),
+  ];
+  if (typeof claims.iss !== 'string' || !issuers.includes(claims.iss)) {
+    throw invalidToken('untrusted issuer');
+  }
+  if (TENANT_GUID_PATTERN.test(options.tenantId) && tenantId.toLowerCase() !== options.tenantId.toLowerCase()) {
+    throw invalidToken('issued by another tenant');
+  }
+
+  // Only delegated (user) tokens can be exchanged on behalf of a user
+  if (typeof claims.oid !== 'string' || typeof claims.scp !== 'string') {
+    throw invalidToken('not a user token');
+  }
+
+  const username = [claims.preferred_username, claims.upn, claims.unique_name].find(
+    (value): value is string => typeof value === 'string'
+  );
+  return {
+    userId: claims.oid,
+    tenantId,
+    ...(username ? { username } : {}),
+    assertion: token,
+    expiresAt: claims.exp * 1000,
+  };
+}
+
+/**
+ * Exchanges caller tokens for Graph tokens and caches them per user and scope set
+ */
+export class OnBehalfOfTokenProvider {
+  private tokens = new Map<string, { token: string; expiresAt: number }>();
+  /** Exchanges in flight, shared by concurrent calls of the same user */
+  private pending = new Map<string, Promise<string>>();
+
+  /**
+   * @throws ConfigurationError if neither a client secret nor a certificate is configured
+   */
+  constructor(private readonly options: OnBehalfOfOptions) {
+    if (!options.clientSecret && !options.certificatePath) {
+      throw new ConfigurationError(
+        'On-behalf-of authentication needs AZURE_CLIENT_SECRET or AZURE_CLIENT_CERTIFICATE_PATH',
+        { setting: 'AUTH_METHOD' }
+      );
+    }
+  }
+
+  private static userKey(caller: Caller): string {
+    return `${caller.tenantId}/${caller.userId}`;
+  }
+
+  /**
+   * Get a Graph token for the caller
+   * @throws AuthenticationError if the exchange fails (e.g. missing consent)
+   */
+  async getToken(caller: Caller, scopes: string[]): Promise<string> {
+    const key = `${OnBehalfOfTokenProvider.userKey(caller)}|${[...scopes].sort().join(',')}`;
+    const cached = this.tokens.get(key);
+    if (cached && cached.expiresAt > Date.now() + TOKEN_REFRESH_MARGIN_MS) {
+      return cached.token;
+    }
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.exchange(caller, scopes, key).finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async exchange(caller: Caller, scopes: string[], key: string): Promise<string> {
+    const { clientId, clientSecret, certificatePath, authorityHost } = this.options;
+    const base = { tenantId: caller.tenantId, clientId, userAssertionToken: caller.assertion, authorityHost };
+
+    let result;
+    try {
+      const credential = clientSecret
+        ? new OnBehalfOfCredential({ ...base, clientSecret })
+        : new OnBehalfOfCredential({ ...base, certificatePath: certificatePath! });
+      result = await credential.getToken(scopes);
+    } catch (error) {
+      throw new AuthenticationError(
+        `On-behalf-of token exchange failed: ${error instanceof Error ? error.message : String(error)}`,
+        { tenantId: caller.tenantId }
+      );
+    }
+    if (!result) {
+      throw new AuthenticationError('On-behalf-of token exchange returned no token', { tenantId: caller.tenantId });
+    }
+
+    this.prune();
+    this.tokens.set(key, { token: result.token, expiresAt: result.expiresOnTimestamp });
+    info('Obtained access token on behalf of caller', {
+      tenantId: caller.tenantId,
+      expiresAt: new Date(result.expiresOnTimestamp).toISOString(),
+    });
+    return result.token;
+  }
+
+  /**
+   * Drop expired tokens, and the oldest ones beyond the size limit
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.tokens) {
+      if (entry.expiresAt <= now) {
+        this.tokens.delete(key);
+      }
+    }
+    for (const key of this.tokens.keys()) {
+      if (this.tokens.size < MAX_CACHED_TOKENS) {
+        break;
+      }
+      this.tokens.delete(key);
+    }
+  }
+
+  /**
+   * Cached tokens of one caller
+   */
+  entries(caller: Caller): { scopes: string[]; token: string; expiresAt: number }[] {
+    const prefix = `${OnBehalfOfTokenProvider.userKey(caller)}|`;
+    return [...this.tokens.entries()]
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, entry]) => ({ scopes: key.slice(prefix.length).split(','), ...entry }));
+  }
+
+  /**
+   * Forget the cached tokens of one caller
+   */
+  forget(caller: Caller): void {
+    const prefix = `${OnBehalfOfTokenProvider.userKey(caller)}|`;
+    for (const key of [...this.tokens.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.tokens.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.tokens.clear();
+  }
+
+  get size(): number {
+    return this.tokens.size;
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { ConfigurationError } from '../utils/errors.js';
+import { getProfileFromArgs, parseConfigFile } from './settings.js';
+
+const FILE = '/tmp/config.json';
+
+describe('parseConfigFile', () => {
+  it('parses profiles and normalizes their values', () => {
+    const config = parseConfigFile({
+      $schema: './schema.json',
+      defaultProfile: 'work',
+      profiles: {
+        work: {
+          tenantId: ' contoso.onmicrosoft.com ',
+          authMethod: 'devicecode',
+          logLevel: 'debug',
+          consentUpfront: 'true',
+          enabledTools: 'm365copilotsearch, m365copilotchat',
+          toolDefaults: { m365copilotsearch: { pageSize: 5 } },
+        },
+        gov: { cloud: 'USGov', enabledTools: ['m365copilotretrieval'] },
+      },
+    }, FILE);
+
+    expect(config).toEqual({
+      defaultProfile: 'work',
+      profiles: {
+        work: {
+          tenantId: 'contoso.onmicrosoft.com',
+          authMethod: 'DeviceCode',
+          logLevel: 'DEBUG',
+          consentUpfront: true,
+          enabledTools: ['m365copilotsearch', 'm365copilotchat'],
+          toolDefaults: { m365copilotsearch: { pageSize: 5 } },
+        },
+        gov: { cloud: 'USGov', enabledTools: ['m365copilotretrieval'] },
+      },
+    });
+  });
+
+  it('accepts a file without profiles', () => {
+    expect(parseConfigFile({}, FILE)).toEqual({ profiles: {} });
+  });
+
+  it.each([
+    [[], '(root) must be an object'],
+    [{ profile: {} }, 'profile is not a known setting'],
+    [{ profiles: [] }, 'profiles must map profile names to settings'],
+    [{ profiles: { work: 'x' } }, 'profiles.work must be an object'],
+    [{ profiles: { work: { tenant: 'x' } } }, 'profiles.work.tenant is not a known setting'],
+    [{ profiles: { work: { tenantId: '' } } }, 'profiles.work.tenantId must be a non-empty string'],
+    [{ profiles: { work: { authMethod: 'Password' } } }, 'profiles.work.authMethod must be one of'],
+    [{ profiles: { work: { logLevel: '1' } } }, 'profiles.work.logLevel must be one of'],
+    [{ profiles: { work: { redirectUri: 'localhost:3000' } } }, 'profiles.work.redirectUri must be an http or https URL'],
+    [{ profiles: { work: { consentUpfront: 'yes' } } }, 'profiles.work.consentUpfront must be true or false'],
+    [{ profiles: { work: { enabledTools: [1] } } }, 'profiles.work.enabledTools must be a list of tool names'],
+    [{ profiles: { work: { toolDefaults: { m365copilotsearch: 5 } } } }, 'profiles.work.toolDefaults.m365copilotsearch must be an object'],
+    [{ profiles: { work: { cloud: 'Mars' } } }, 'profiles.work.cloud is invalid'],
+    [{ defaultProfile: 'home', profiles: { work: {} } }, "defaultProfile refers to unknown profile 'home'"],
+  ])('rejects %j', (value, message) => {
+    expect(() => parseConfigFile(value, FILE)).toThrow(ConfigurationError);
+    expect(() => parseConfigFile(value, FILE)).toThrow(message);
+  });
+
+  it('names the file in the error details', () => {
+    try {
+      parseConfigFile({ profiles: { work: { tenantId: 1 } } }, FILE);
+      expect.unreachable();
+    } catch (error) {
+      expect((error as ConfigurationError).details).toEqual({ field: 'profiles.work.tenantId', file: FILE });
+    }
+  });
+});
+
+describe('getProfileFromArgs', () => {
+  it('reads --profile in both forms', () => {
+    expect(getProfileFromArgs(['--profile', 'work'])).toBe('work');
+    expect(getProfileFromArgs(['--http', '--profile=gov'])).toBe('gov');
+    expect(getProfileFromArgs(['--http'])).toBeUndefined();
+  });
+});
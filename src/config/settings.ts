@@ -0,0 +1,413 @@
+/**
+ * Configuration file with named profiles
+ * Settings can come from config.json, config.yaml or config.yml in the
+ * configuration directory (the first that exists, in that order), which
+ * holds named profiles (tenant, client ID, auth method, cloud, log level,
+ * consent behavior, enabled tools and tool defaults). Each setting is resolved in this order:
+ * 1. Environment variable (e.g. AZURE_TENANT_ID)
+ * 2. The active profile in the configuration file
+ * 3. Built-in default (applied by the code that uses the setting)
+ *
+ * The active profile is chosen with --profile <name>, then M365_PROFILE, then
+ * the file's defaultProfile. The file is re-read when it changes, so edits
+ * apply without restarting the server.
+ *
+ * Example:
+ * {
+ *   "defaultProfile": "work",
+ *   "profiles": {
+ *     "work": { "tenantId": "contoso.onmicrosoft.com", "authMethod": "DeviceCode" },
+ *     "gov": { "cloud": "USGov", "enabledTools": ["m365copilotsearch", "m365copilotretrieval"] }
+ *   }
+ * }
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ConfigurationError } from '../utils/errors.js';
+import { getConfigFilePath } from '../utils/paths.js';
+import { LogLevel, info, error as logError } from '../utils/logger.js';
+import { resolveCloudEndpoints } from '../auth/cloud.js';
+import type { AuthMethod } from '../auth/identity.js';
+
+/**
+ * Configuration file names, in order of precedence when several exist
+ */
+const CONFIG_FILE_NAMES = ['config.json', 'config.yaml', 'config.yml'];
+
+const AUTH_METHODS: readonly AuthMethod[] = ['InteractiveBrowser', 'DeviceCode', 'OnBehalfOf'];
+
+export type LogLevelName = keyof typeof LogLevel;
+
+/**
+ * Settings a profile can hold
+ */
+export interface ProfileSettings {
+  tenantId?: string;
+  clientId?: string;
+  authMethod?: AuthMethod;
+  /** National cloud name or custom Graph base URL (see auth/cloud.ts) */
+  cloud?: string;
+  authorityHost?: string;
+  redirectUri?: string;
+  logLevel?: LogLevelName;
+  /** Consent to the permissions of all built-in tools at first sign-in, instead of per tool when first used */
+  consentUpfront?: boolean;
+  /** Tools offered to clients (default: all) */
+  enabledTools?: string[];
+  /** Default arguments per tool, used when a call doesn't pass them */
+  toolDefaults?: Record<string, Record<string, unknown>>;
+}
+
+export interface ConfigFile {
+  defaultProfile?: string;
+  profiles: Record<string, ProfileSettings>;
+}
+
+/**
+ * Effective settings: environment variables applied over the active profile
+ */
+export interface Settings extends ProfileSettings {
+  /** Active profile, or null when none is selected */
+  profile: string | null;
+  /** Where each setting came from (environment variable name or profile field) */
+  sources: Partial<Record<keyof ProfileSettings, string>>;
+}
+
+/**
+ * Environment variables that override profile settings
+ */
+export const SETTING_ENV_VARS: Record<Exclude<keyof ProfileSettings, 'toolDefaults'>, string> = {
+  tenantId: 'AZURE_TENANT_ID',
+  clientId: 'AZURE_CLIENT_ID',
+  authMethod: 'AUTH_METHOD',
+  cloud: 'M365_CLOUD',
+  authorityHost: 'AZURE_AUTHORITY_HOST',
+  redirectUri: 'REDIRECT_URI',
+  logLevel: 'LOG_LEVEL',
+  consentUpfront: 'M365_CONSENT_UPFRONT',
+  enabledTools: 'M365_ENABLED_TOOLS',
+};
+
+const PROFILE_FIELDS: readonly (keyof ProfileSettings)[] = [...Object.keys(SETTING_ENV_VARS), 'toolDefaults'] as (keyof ProfileSettings)[];
+
+/**
+ * Get the path of the configuration file
+ * The first of config.json, config.yaml and config.yml that exists, or
+ * config.json when there is none.
+ */
+export function getConfigFile(): string {
+  const files = CONFIG_FILE_NAMES.map(name => getConfigFilePath(name));
+  return files.find(file => fs.existsSync(file)) ?? files[0];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalid(field: string, message: string, file?: string): ConfigurationError {
+  return new ConfigurationError(`Invalid configuration: ${field} ${message}`, { field, ...(file ? { file } : {}) });
+}
+
+function assignSetting<K extends keyof ProfileSettings>(target: ProfileSettings, key: K, value: ProfileSettings[K]): void {
+  target[key] = value;
+}
+
+function parseString(value: unknown, field: string, file?: string): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw invalid(field, 'must be a non-empty string', file);
+  }
+  return value.trim();
+}
+
+/**
+ * Validate one setting value
+ * @param field - Name used in errors (profile field path or environment variable)
+ */
+function parseSetting<K extends keyof ProfileSettings>(
+  key: K,
+  value: unknown,
+  field: string,
+  file?: string
+): ProfileSettings[K] {
+  switch (key) {
+    case 'authMethod': {
+      const method = AUTH_METHODS.find(m => m.toLowerCase() === String(value).trim().toLowerCase());
+      if (typeof value !== 'string' || !method) {
+        throw invalid(field, `must be one of: ${AUTH_METHODS.join(', ')}`, file);
+      }
+      return method as ProfileSettings[K];
+    }
+    case 'logLevel': {
+      const level = typeof value === 'string' ? value.trim().toUpperCase() : '';
+      if (!(level in LogLevel) || !isNaN(Number(level))) {
+        throw invalid(field, `must be one of: ${Object.keys(LogLevel).filter(k => isNaN(Number(k))).join(', ')}`, file);
+      }
+      return level as ProfileSettings[K];
+    }
+    case 'redirectUri': {
+      const uri = parseString(value, field, file);
+      if (!/^https?:\/\/[^\s]+$/i.test(uri)) {
+        throw invalid(field, 'must be an http or https URL', file);
+      }
+      return uri as ProfileSettings[K];
+    }
+    case 'consentUpfront': {
+      const flag = typeof value === 'string' ? value.trim().toLowerCase() : value;
+      if (flag !== true && flag !== false && flag !== 'true' && flag !== 'false') {
+        throw invalid(field, 'must be true or false', file);
+      }
+      return (flag === true || flag === 'true') as ProfileSettings[K];
+    }
+    case 'enabledTools': {
+      const tools = typeof value === 'string' ? value.split(',').map(tool => tool.trim()).filter(Boolean) : value;
+      if (!Array.isArray(tools) || !tools.every(tool => typeof tool === 'string' && tool.trim() !== '')) {
+        throw invalid(field, 'must be a list of tool names', file);
+      }
+      return tools.map(tool => tool.trim()) as ProfileSettings[K];
+    }
+    case 'toolDefaults': {
+      if (!isObject(value)) {
+        throw invalid(field, 'must map tool names to default arguments', file);
+      }
+      for (const [tool, defaults] of Object.entries(value)) {
+        if (!isObject(defaults)) {
+          throw invalid(`${field}.${tool}`, 'must be an object of argument values', file);
+        }
+      }
+      return value as ProfileSettings[K];
+    }
+    default:
+      return parseString(value, field, file) as ProfileSettings[K];
+  }
+}
+
+/**
+ * Check that cloud and authority host resolve to endpoints
+ */
+function checkCloud(settings: ProfileSettings, fields: Partial<Record<keyof ProfileSettings, string>>, file?: string): void {
+  if (settings.cloud === undefined && settings.authorityHost === undefined) {
+    return;
+  }
+  try {
+    resolveCloudEndpoints(settings.cloud, settings.authorityHost);
+  } catch (error) {
+    if (error instanceof ConfigurationError) {
+      const key = error.details?.setting === 'AZURE_AUTHORITY_HOST' ? 'authorityHost' : 'cloud';
+      throw invalid(fields[key] || key, `is invalid: ${error.message}`, file);
+    }
+    throw error;
+  }
+}
+
+function parseProfile(value: unknown, where: string, file: string): ProfileSettings {
+  if (!isObject(value)) {
+    throw invalid(where, 'must be an object', file);
+  }
+
+  const profile: ProfileSettings = {};
+  const fields: Partial<Record<keyof ProfileSettings, string>> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const field = `${where}.${key}`;
+    if (!PROFILE_FIELDS.includes(key as keyof ProfileSettings)) {
+      throw invalid(field, `is not a known setting (expected one of: ${PROFILE_FIELDS.join(', ')})`, file);
+    }
+    assignSetting(profile, key as keyof ProfileSettings, parseSetting(key as keyof ProfileSettings, item, field, file));
+    fields[key as keyof ProfileSettings] = field;
+  }
+  checkCloud(profile, fields, file);
+
+  return profile;
+}
+
+/**
+ * Validate the contents of a configuration file
+ * @throws ConfigurationError naming the offending field
+ */
+export function parseConfigFile(value: unknown, file: string): ConfigFile {
+  if (!isObject(value)) {
+    throw invalid('(root)', 'must be an object', file);
+  }
+  for (const key of Object.keys(value)) {
+    if (key !== 'defaultProfile' && key !== 'profiles' && key !== '$schema') {
+      throw invalid(key, 'is not a known setting (expected defaultProfile or profiles)', file);
+    }
+  }
+  if (value.profiles !== undefined && !isObject(value.profiles)) {
+    throw invalid('profiles', 'must map profile names to settings', file);
+  }
+
+  const profiles: Record<string, ProfileSettings> = {};
+  for (const [name, profile] of Object.entries(value.profiles || {})) {
+    profiles[name] = parseProfile(profile, `profiles.${name}`, file);
+  }
+
+  const config: ConfigFile = { profiles };
+  if (value.defaultProfile !== undefined) {
+    config.defaultProfile = parseString(value.defaultProfile, 'defaultProfile', file);
+    if (!profiles[config.defaultProfile]) {
+      throw invalid('defaultProfile', `refers to unknown profile '${config.defaultProfile}'`, file);
+    }
+  }
+  return config;
+}
+
+/**
+ * Read the profile name passed on the command line (--profile <name> or --profile=<name>)
+ */
+export function getProfileFromArgs(argv: string[] = process.argv.slice(2)): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--profile') {
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith('--profile=')) {
+      return argv[i].slice('--profile='.length);
+    }
+  }
+  return undefined;
+}
+
+function readConfigFile(file: string): ConfigFile | null {
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  const yaml = ['.yaml', '.yml'].includes(path.extname(file).toLowerCase());
+  let data: unknown;
+  try {
+    const text = fs.readFileSync(file, 'utf-8');
+    data = yaml ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigurationError(
+      `Invalid configuration: ${file} is not valid ${yaml ? 'YAML' : 'JSON'} (${error instanceof Error ? error.message : String(error)})`,
+      { file }
+    );
+  }
+  return parseConfigFile(data, file);
+}
+
+/**
+ * Resolve the effective settings from the configuration file and environment
+ * @throws ConfigurationError if the file, the selected profile or an environment variable is invalid
+ */
+export function loadSettings(
+  file: string = getConfigFile(),
+  env: NodeJS.ProcessEnv = process.env,
+  argv: string[] = process.argv.slice(2)
+): Settings {
+  const config = readConfigFile(file);
+
+  const fromArgs = getProfileFromArgs(argv);
+  const fromEnv = env.M365_PROFILE?.trim() || undefined;
+  const selected = fromArgs ?? fromEnv ?? config?.defaultProfile;
+  if (selected !== undefined && !config?.profiles[selected]) {
+    const setting = fromArgs !== undefined ? '--profile' : fromEnv ? 'M365_PROFILE' : 'defaultProfile';
+    const available = Object.keys(config?.profiles || {});
+    throw new ConfigurationError(
+      `Invalid configuration: ${setting} selects unknown profile '${selected}'` +
+        (config ? ` (available: ${available.join(', ') || 'none'})` : ` (${file} does not exist)`),
+      { field: setting, file }
+    );
+  }
+
+  const profile = selected !== undefined ? config!.profiles[selected] : {};
+  const settings: Settings = { profile: selected ?? null, sources: {} };
+  for (const key of PROFILE_FIELDS) {
+    if (profile[key] !== undefined) {
+      assignSetting(settings, key, profile[key]);
+      settings.sources[key] = `profiles.${selected}.${key}`;
+    }
+  }
+
+  // Environment variables win over the profile
+  const envFields: Partial<Record<keyof ProfileSettings, string>> = {};
+  for (const [key, name] of Object.entries(SETTING_ENV_VARS) as [keyof ProfileSettings, string][]) {
+    const raw = env[name];
+    if (raw !== undefined && raw.trim() !== '') {
+      assignSetting(settings, key, parseSetting(key, raw, name));
+      settings.sources[key] = name;
+      envFields[key] = name;
+    }
+  }
+  checkCloud(settings, { ...settings.sources, ...envFields });
+
+  return settings;
+}
+
+type SettingsListener = (settings: Settings, previous: Settings) => void;
+
+let current: { settings: Settings; stamp: string } | null = null;
+const listeners = new Set<SettingsListener>();
+
+function fileStamp(file: string): string {
+  const stats = fs.statSync(file, { throwIfNoEntry: false });
+  // The path is part of the stamp, so switching between JSON and YAML also reloads
+  return stats ? `${file}:${stats.mtimeMs}:${stats.size}` : 'missing';
+}
+
+/**
+ * Get the effective settings
+ * The configuration file is re-read when it has changed. An invalid edit is
+ * reported and the previous settings stay in effect; only the first load throws.
+ */
+export function getSettings(): Settings {
+  const file = getConfigFile();
+  const stamp = fileStamp(file);
+
+  if (!current) {
+    current = { settings: loadSettings(file), stamp };
+    return current.settings;
+  }
+  if (stamp === current.stamp) {
+    return current.settings;
+  }
+
+  const previous = current.settings;
+  try {
+    current = { settings: loadSettings(file), stamp };
+  } catch (error) {
+    logError('Ignoring invalid configuration change; previous settings stay in effect', error);
+    current = { settings: previous, stamp };
+    return previous;
+  }
+
+  info('Configuration reloaded', { file, profile: current.settings.profile });
+  for (const listener of listeners) {
+    try {
+      listener(current.settings, previous);
+    } catch (error) {
+      logError('Failed to apply configuration change', error);
+    }
+  }
+  return current.settings;
+}
+
+/**
+ * Call listener whenever the settings change
+ * @returns Function that removes the listener
+ */
+export function onSettingsChange(listener: SettingsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Watch the configuration file so changes are applied as soon as it is saved
+ * (not only on the next call that reads a setting)
+ */
+export function watchSettings(intervalMs: number = 1000): void {
+  for (const name of CONFIG_FILE_NAMES) {
+    fs.watchFile(getConfigFilePath(name), { interval: intervalMs, persistent: false }, () => {
+      getSettings();
+    });
+  }
+}
+
+/**
+ * Forget the loaded settings so they are read again on next use
+ */
+export function resetSettings(): void {
+  current = null;
+}
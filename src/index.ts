@@ -2,11 +2,43 @@
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { createServer } from './server.js';
+import { startHttpTransport, loadHttpTransportOptionsFromEnv } from './transports/http.js';
 import { info, error as logError, setLogLevel, LogLevel } from './utils/logger.js';
+import { ConfigurationError } from './utils/errors.js';
+import { getCloudEndpoints, resetCloudEndpoints } from './auth/cloud.js';
+import { getAuthManager, resetAuthManager } from './auth/identity.js';
+import { Settings, getConfigFile, getSettings, onSettingsChange, watchSettings } from './config/settings.js';
+import { getResponseCache } from './utils/cache.js';
+import { getGraphCircuitBreaker } from './utils/httpClient.js';
+import { getToolRegistry } from './registry/registry.js';
+import { loadPlugins } from './registry/plugins.js';
+
+/**
+ * Settings that change how the server signs in
+ */
+const SIGN_IN_SETTINGS = ['tenantId', 'clientId', 'authMethod', 'cloud', 'authorityHost', 'redirectUri'] as const;
+
+/**
+ * Apply a config file edit to the running server
+ * Enabled tools and tool defaults are read on every call, so only the log
+ * level and sign-in settings need work here.
+ */
+function applySettingsChange(settings: Settings, previous: Settings): void {
+  setLogLevel(LogLevel[settings.logLevel || 'INFO']);
+
+  if (SIGN_IN_SETTINGS.some(key => settings[key] !== previous[key])) {
+    resetCloudEndpoints();
+    resetAuthManager();
+    info('Sign-in settings changed; the next tool call signs in with the new settings', {
+      profile: settings.profile,
+    });
+  }
+}
 
 /**
  * Main entry point for the M365 Copilot MCP Server
- * Uses stdio transport for local execution with Claude Code CLI
+ * Uses stdio transport for local execution with Claude Code CLI by default.
+ * Set MCP_TRANSPORT=http to serve several MCP clients from one shared server.
  *
  * Per MCP specification, STDIO transport servers should NOT perform
  * authentication on startup. Instead, authentication happens lazily
@@ -14,25 +46,75 @@ import { info, error as logError, setLogLevel, LogLevel } from './utils/logger.j
  */
 async function main() {
   try {
-    // Set log level from environment variable (default: INFO)
-    const logLevelEnv = process.env.LOG_LEVEL?.toUpperCase();
-    if (logLevelEnv && logLevelEnv in LogLevel) {
-      setLogLevel(LogLevel[logLevelEnv as keyof typeof LogLevel]);
+    // Load the config file profile and environment overrides; invalid settings fail fast
+    const settings = getSettings();
+
+    // Set log level from LOG_LEVEL or the profile (default: INFO)
+    if (settings.logLevel) {
+      setLogLevel(LogLevel[settings.logLevel]);
     }
 
     info('Starting M365 Copilot MCP Server');
-    info('Authentication will occur on first tool call (using cached tokens if available)');
+    if (settings.profile) {
+      info('Using configuration profile', { profile: settings.profile, file: getConfigFile() });
+    }
 
-    // Create the MCP server instance
-    const server = createServer();
+    // Pick up config file edits without a restart
+    onSettingsChange(applySettingsChange);
+    watchSettings();
 
-    // Create stdio transport
-    const transport = new StdioServerTransport();
+    // Resolve cloud endpoints early so an invalid M365_CLOUD fails fast
+    const { cloud, graphBaseUrl } = getCloudEndpoints();
+    info(`Using ${cloud} cloud`, { graphBaseUrl });
 
-    // Connect server to transport
-    await server.connect(transport);
+    // Same for the response cache and circuit breaker settings
+    getResponseCache();
+    getGraphCircuitBreaker();
+
+    // Add plugin tools before any client can list the tools
+    await loadPlugins(getToolRegistry());
+
+    const transportMode = (process.env.MCP_TRANSPORT || 'stdio').toLowerCase();
+
+    if (transportMode === 'http') {
+      // On behalf of users: check the app credential before accepting callers
+      if (settings.authMethod === 'OnBehalfOf') {
+        await getAuthManager().initialize();
+      }
+
+      // Shared server: one MCP server instance per client session
+      const httpServer = await startHttpTransport(loadHttpTransportOptionsFromEnv());
+
+      const shutdown = () => {
+        info('Shutting down M365 Copilot MCP Server');
+        httpServer.close(() => process.exit(0));
+        httpServer.closeAllConnections();
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    } else if (transportMode === 'stdio') {
+      if (settings.authMethod === 'OnBehalfOf') {
+        throw new ConfigurationError('AUTH_METHOD=OnBehalfOf requires MCP_TRANSPORT=http', { setting: 'AUTH_METHOD' });
+      }
+
+      info('Authentication will occur on first tool call (using cached tokens if available)');
+
+      // Create the MCP server instance
+      const server = createServer();
+
+      // Create stdio transport
+      const transport = new StdioServerTransport();
+
+      // Connect server to transport
+      await server.connect(transport);
+    } else {
+      throw new ConfigurationError(`Unknown MCP_TRANSPORT '${transportMode}'. Must be 'stdio' or 'http'`, {
+        setting: 'MCP_TRANSPORT',
+        value: transportMode,
+      });
+    }
 
-    info('M365 Copilot MCP Server started successfully');
+    info('M365 Copilot MCP Server started successfully', { transport: transportMode });
   } catch (error) {
     logError('Failed to start M365 Copilot MCP Server', error);
     process.exit(1);
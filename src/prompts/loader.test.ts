@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { ConfigurationError } from '../utils/errors.js';
+import { parsePromptTemplate } from './loader.js';
+
+const SOURCE = 'team.json';
+
+describe('parsePromptTemplate', () => {
+  it('parses a single-message template with typed arguments', () => {
+    const template = parsePromptTemplate({
+      name: 'weekly-status',
+      title: 'Weekly status',
+      description: 'Draft my weekly status report',
+      arguments: [
+        { name: 'team', description: 'Team name', required: true },
+        { name: 'tone', type: 'enum', values: ['formal', 'casual'], default: 'formal' },
+        { name: 'weeks', type: 'integer', minimum: 1, maximum: 4 },
+      ],
+      template: 'Draft a weekly status report for {{team}}',
+    }, SOURCE);
+
+    expect(template).toEqual({
+      name: 'weekly-status',
+      title: 'Weekly status',
+      description: 'Draft my weekly status report',
+      arguments: [
+        { name: 'team', description: 'Team name', type: 'string', required: true },
+        { name: 'tone', description: '', type: 'enum', required: false, values: ['formal', 'casual'], default: 'formal' },
+        { name: 'weeks', description: '', type: 'integer', required: false, minimum: 1, maximum: 4 },
+      ],
+      messages: [{ role: 'user', text: 'Draft a weekly status report for {{team}}' }],
+      source: SOURCE,
+    });
+  });
+
+  it('parses a list of messages', () => {
+    const template = parsePromptTemplate({
+      name: 'review',
+      messages: [{ text: 'Review this' }, { role: 'assistant', text: 'Which document?' }],
+    }, SOURCE);
+
+    expect(template.arguments).toEqual([]);
+    expect(template.messages).toEqual([
+      { role: 'user', text: 'Review this' },
+      { role: 'assistant', text: 'Which document?' },
+    ]);
+  });
+
+  it.each([
+    ['a non-object', 'x', 'a template must be a JSON object'],
+    ['a bad name', { name: 'weekly status', template: 'x' }, '"name" must contain only'],
+    ['arguments that are not a list', { name: 'a', arguments: {}, template: 'x' }, '"arguments" must be a list'],
+    ['an argument without a name', { name: 'a', arguments: [{}], template: 'x' }, 'each argument needs a valid "name"'],
+    ['an unknown argument type', { name: 'a', arguments: [{ name: 'b', type: 'date' }], template: 'x' }, 'unknown type "date"'],
+    ['an enum without values', { name: 'a', arguments: [{ name: 'b', type: 'enum' }], template: 'x' }, 'needs a non-empty "values" list'],
+    ['a bound on a string', { name: 'a', arguments: [{ name: 'b', minimum: 1 }], template: 'x' }, '"minimum" of argument "b"'],
+    ['a non-string default', { name: 'a', arguments: [{ name: 'b', default: 3 }], template: 'x' }, 'default of argument "b" must be a string'],
+    ['no template or messages', { name: 'a' }, 'needs a "template" string or a "messages" list'],
+    ['a message with an unknown role', { name: 'a', messages: [{ role: 'system', text: 'x' }] }, 'messages[0] needs "text"'],
+  ])('rejects %s', (_, value, message) => {
+    expect(() => parsePromptTemplate(value, SOURCE)).toThrow(ConfigurationError);
+    expect(() => parsePromptTemplate(value, SOURCE)).toThrow(message);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Loader for team-defined prompt templates
+ * Templates are JSON files in the prompts directory (M365_PROMPTS_DIR, or
+ * "prompts" in the configuration directory). A file holds one template or an
+ * array of templates. Files are re-read on every prompts request, so edits
+ * show up without restarting the server.
+ *
+ * Example:
+ * {
+ *   "name": "weekly-status",
+ *   "description": "Draft my weekly status report",
+ *   "arguments": [{ "name": "team", "description": "Team name", "required": true }],
+ *   "template": "Call m365copilotchat and ask: \"Draft a weekly status report for {{team}}\""
+ * }
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigurationError } from '../utils/errors.js';
+import { getConfigFilePath } from '../utils/paths.js';
+import { info, warn } from '../utils/logger.js';
+import {
+  BUILTIN_PROMPTS,
+  PROMPT_ARGUMENT_TYPES,
+  PromptArgumentDefinition,
+  PromptMessageDefinition,
+  PromptTemplate,
+} from './templates.js';
+
+const PROMPT_NAME_PATTERN = /^[A-Za-z0-9][\w-]*$/;
+
+/**
+ * Invalid files already reported (path and modification time), so each
+ * broken version of a file is only logged once
+ */
+const reportedInvalidFiles = new Set<string>();
+
+/**
+ * Overrides already reported (template name, file and modification time), so
+ * listing or getting prompts doesn't log the same override on every request
+ */
+const reportedOverrides = new Set<string>();
+
+/**
+ * Get the directory team templates are loaded from
+ */
+export function getPromptsDir(): string {
+  return process.env.M365_PROMPTS_DIR || getConfigFilePath('prompts');
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseArgumentDefinition(value: unknown, where: string): PromptArgumentDefinition {
+  if (!isObject(value) || typeof value.name !== 'string' || !PROMPT_NAME_PATTERN.test(value.name)) {
+    throw new ConfigurationError(`${where}: each argument needs a valid "name"`);
+  }
+
+  const type = value.type ?? 'string';
+  if (!PROMPT_ARGUMENT_TYPES.includes(type)) {
+    throw new ConfigurationError(`${where}: argument "${value.name}" has unknown type "${type}"`, {
+      allowedTypes: PROMPT_ARGUMENT_TYPES,
+    });
+  }
+  if (type === 'enum' && (!Array.isArray(value.values) || value.values.length === 0 ||
+      !value.values.every((v: unknown) => typeof v === 'string'))) {
+    throw new ConfigurationError(`${where}: enum argument "${value.name}" needs a non-empty "values" list`);
+  }
+  for (const bound of ['minimum', 'maximum']) {
+    if (value[bound] !== undefined && (type !== 'integer' || !Number.isInteger(value[bound]))) {
+      throw new ConfigurationError(`${where}: "${bound}" of argument "${value.name}" must be an integer on an integer argument`);
+    }
+  }
+  if (value.default !== undefined && typeof value.default !== 'string') {
+    throw new ConfigurationError(`${where}: default of argument "${value.name}" must be a string`);
+  }
+
+  return {
+    name: value.name,
+    description: typeof value.description === 'string' ? value.description : '',
+    type,
+    required: value.required === true,
+    ...(type === 'enum' ? { values: value.values } : {}),
+    ...(value.minimum !== undefined ? { minimum: value.minimum } : {}),
+    ...(value.maximum !== undefined ? { maximum: value.maximum } : {}),
+    ...(value.default !== undefined ? { default: value.default } : {}),
+  };
+}
+
+function parseMessages(value: Record<string, any>, where: string): PromptMessageDefinition[] {
+  if (typeof value.template === 'string') {
+    return [{ role: 'user', text: value.template }];
+  }
+
+  if (!Array.isArray(value.messages) || value.messages.length === 0) {
+    throw new ConfigurationError(`${where}: a template needs a "template" string or a "messages" list`);
+  }
+  return value.messages.map((message: unknown, index: number) => {
+    if (!isObject(message) || typeof message.text !== 'string' ||
+        (message.role !== undefined && message.role !== 'user' && message.role !== 'assistant')) {
+      throw new ConfigurationError(`${where}: messages[${index}] needs "text" and a role of user or assistant`);
+    }
+    return { role: message.role ?? 'user', text: message.text };
+  });
+}
+
+/**
+ * Validate a template definition read from a file
+ * @throws ConfigurationError if the definition is invalid
+ */
+export function parsePromptTemplate(value: unknown, source: string): PromptTemplate {
+  if (!isObject(value)) {
+    throw new ConfigurationError(`${source}: a template must be a JSON object`);
+  }
+  if (typeof value.name !== 'string' || !PROMPT_NAME_PATTERN.test(value.name)) {
+    throw new ConfigurationError(`${source}: "name" must contain only letters, digits, '-' and '_'`, {
+      name: value.name,
+    });
+  }
+
+  const where = `${source} (${value.name})`;
+  if (value.arguments !== undefined && !Array.isArray(value.arguments)) {
+    throw new ConfigurationError(`${where}: "arguments" must be a list`);
+  }
+
+  return {
+    name: value.name,
+    ...(typeof value.title === 'string' ? { title: value.title } : {}),
+    description: typeof value.description === 'string' ? value.description : '',
+    arguments: (value.arguments || []).map((argument: unknown) => parseArgumentDefinition(argument, where)),
+    messages: parseMessages(value, where),
+    source,
+  };
+}
+
+/**
+ * Load all templates from a directory
+ * Invalid files are skipped with a warning so one bad file doesn't hide the rest.
+ */
+export function loadPromptDirectory(dir: string): PromptTemplate[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const templates: PromptTemplate[] = [];
+  const files = fs.readdirSync(dir).filter(file => file.endsWith('.json')).sort();
+
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      for (const definition of Array.isArray(data) ? data : [data]) {
+        templates.push(parsePromptTemplate(definition, file));
+      }
+    } catch (error) {
+      const key = `${filePath}:${fs.statSync(filePath, { throwIfNoEntry: false })?.mtimeMs}`;
+      if (!reportedInvalidFiles.has(key)) {
+        reportedInvalidFiles.add(key);
+        warn('Skipping invalid prompt template file', {
+          path: filePath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  return templates;
+}
+
+/**
+ * Get the built-in templates plus the team templates
+ * A team template with the same name as a built-in one replaces it.
+ */
+export function getPromptTemplates(): PromptTemplate[] {
+  const templates = new Map(BUILTIN_PROMPTS.map(template => [template.name, template]));
+  const dir = getPromptsDir();
+
+  for (const template of loadPromptDirectory(dir)) {
+    const existing = templates.get(template.name);
+    const filePath = path.join(dir, template.source);
+    const key = existing && `${template.name}:${filePath}:${fs.statSync(filePath, { throwIfNoEntry: false })?.mtimeMs}`;
+    if (key && !reportedOverrides.has(key)) {
+      reportedOverrides.add(key);
+      info('Prompt template overrides an earlier definition', {
+        name: template.name,
+        source: template.source,
+        replaced: existing.source,
+      });
+    }
+    templates.set(template.name, template);
+  }
+
+  return [...templates.values()];
+}
+
+/**
+ * Find a template by name
+ */
+export function findPromptTemplate(name: string): PromptTemplate | undefined {
+  return getPromptTemplates().find(template => template.name === name);
+}
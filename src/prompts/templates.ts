@@ -0,0 +1,276 @@
+/**
+ * Prompt templates for common Microsoft 365 Copilot workflows
+ * Templates tie the retrieval, search and chat tools together so users don't
+ * have to retype the same instructions. Arguments are typed and validated
+ * before the template is rendered.
+ *
+ * Template text uses {{argument}} placeholders and {{#argument}}...{{/argument}}
+ * sections, which are only rendered when the argument has a value other than false.
+ */
+
+import { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { ValidationError } from '../utils/errors.js';
+
+export type PromptArgumentType = 'string' | 'integer' | 'boolean' | 'enum';
+
+export const PROMPT_ARGUMENT_TYPES: readonly PromptArgumentType[] = ['string', 'integer', 'boolean', 'enum'];
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description: string;
+  type?: PromptArgumentType;
+  required?: boolean;
+  /** Allowed values for enum arguments */
+  values?: string[];
+  /** Inclusive range for integer arguments */
+  minimum?: number;
+  maximum?: number;
+  /** Value used when the argument is not provided */
+  default?: string;
+}
+
+export interface PromptMessageDefinition {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+export interface PromptTemplate {
+  name: string;
+  title?: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+  messages: PromptMessageDefinition[];
+  /** Where the template came from: 'builtin' or the file it was loaded from */
+  source: string;
+}
+
+
+/**
+ * Built-in templates
+ */
+export const BUILTIN_PROMPTS: PromptTemplate[] = [
+  {
+    name: 'ground-answer-in-document',
+    title: 'Answer a question from a document',
+    description: 'Find a document with search, then ask Copilot to answer a question grounded in it',
+    source: 'builtin',
+    arguments: [
+      { name: 'document', description: 'Keywords or title identifying the document', required: true },
+      { name: 'question', description: 'Question to answer from the document', required: true },
+      { name: 'timeZone', description: 'IANA time zone for the chat request (e.g. Europe/Berlin)', default: 'UTC' },
+    ],
+    messages: [
+      {
+        role: 'user',
+        text: [
+          'Answer my question using only the document I describe below.',
+          '',
+          '1. Call m365copilotsearch with the query "{{document}}" and pick the best matching document. If several documents match equally well, list them and ask me which one to use.',
+          '2. Call m365copilotchat with the message "{{question}}", files set to the chosen document\'s webUrl, enableWebGrounding set to false and timeZone "{{timeZone}}".',
+          '3. Reply with the answer, the document title and link, and the citations Copilot returned.',
+        ].join('\n'),
+      },
+    ],
+  },
+  {
+    name: 'summarize-meetings',
+    title: 'Summarize my meetings',
+    description: 'Ask Copilot for a summary of your meetings with decisions and action items',
+    source: 'builtin',
+    arguments: [
+      {
+        name: 'period',
+        description: 'Which meetings to summarize',
+        type: 'enum',
+        values: ['today', 'yesterday', 'this week', 'last week', 'this month'],
+        default: 'this week',
+      },
+      { name: 'focus', description: 'Optional topic or project to focus on' },
+      { name: 'timeZone', description: 'IANA time zone used to interpret the period (e.g. Europe/Berlin)', default: 'UTC' },
+    ],
+    messages: [
+      {
+        role: 'user',
+        text: [
+          'Call m365copilotchat with timeZone "{{timeZone}}" and this message:',
+          '',
+          '"Summarize my meetings {{period}}{{#focus}} about {{focus}}{{/focus}}. For each meeting list the date, the key decisions and the action items with owner and due date."',
+          '',
+          'Then present the result as a list of meetings followed by a single consolidated table of action items (action, owner, due date, meeting).',
+        ].join('\n'),
+      },
+    ],
+  },
+  {
+    name: 'research-topic',
+    title: 'Research a topic across my content',
+    description: 'Collect relevant passages with retrieval and synthesize a cited briefing',
+    source: 'builtin',
+    arguments: [
+      { name: 'topic', description: 'Topic to research', required: true },
+      { name: 'maxResults', description: 'Maximum passages per data source', type: 'integer', minimum: 1, maximum: 25, default: '10' },
+      { name: 'includeConnectors', description: 'Also search Copilot connectors', type: 'boolean', default: 'false' },
+    ],
+    messages: [
+      {
+        role: 'user',
+        text: [
+          'Research "{{topic}}" across my Microsoft 365 content.',
+          '',
+          '1. Call m365copilotretrieval with queryString "{{topic}}" and maximumNumberOfResults {{maxResults}}{{#includeConnectors}}, with dataSources sharePoint, oneDriveBusiness and externalItem{{/includeConnectors}}.',
+          '2. Write a short briefing: key facts, open questions and conflicting information.',
+          '3. Cite every statement with the webUrl of the document it came from, and list the documents at the end.',
+        ].join('\n'),
+      },
+    ],
+  },
+  {
+    name: 'catch-up-on-project',
+    title: 'Catch up on a project',
+    description: 'Find recent documents about a project and ask Copilot what changed',
+    source: 'builtin',
+    arguments: [
+      { name: 'project', description: 'Project name', required: true },
+      { name: 'since', description: 'Time frame to cover (e.g. "the last two weeks")', default: 'the last two weeks' },
+      { name: 'timeZone', description: 'IANA time zone for the chat request (e.g. Europe/Berlin)', default: 'UTC' },
+    ],
+    messages: [
+      {
+        role: 'user',
+        text: [
+          'Help me catch up on the project "{{project}}".',
+          '',
+          '1. Call m365copilotsearch with the query "{{project}}" and note the most relevant recent documents.',
+          '2. Call m365copilotchat with timeZone "{{timeZone}}" and the message "What changed in the {{project}} project in {{since}}? Include decisions, risks and open action items from emails, chats and meetings."',
+          '3. Combine both into a catch-up note with links to the documents.',
+        ].join('\n'),
+      },
+    ],
+  },
+];
+
+/**
+ * Validate and normalize a prompt argument value
+ * Prompt arguments always arrive as strings, so typed values are parsed here.
+ */
+function parseArgument(definition: PromptArgumentDefinition, raw: string | undefined): string | undefined {
+  const value = raw === undefined || raw.trim() === '' ? definition.default : raw.trim();
+
+  if (value === undefined) {
+    if (definition.required) {
+      throw new ValidationError(`Missing required argument: ${definition.name}`, { paramName: definition.name });
+    }
+    return undefined;
+  }
+
+  switch (definition.type || 'string') {
+    case 'integer':
+      if (!/^-?\d+$/.test(value)) {
+        throw new ValidationError(`Argument '${definition.name}' must be an integer`, {
+          paramName: definition.name,
+          value,
+        });
+      }
+      {
+        const parsed = parseInt(value, 10);
+        if ((definition.minimum !== undefined && parsed < definition.minimum) ||
+            (definition.maximum !== undefined && parsed > definition.maximum)) {
+          throw new ValidationError(
+            `Argument '${definition.name}' must be between ${definition.minimum ?? '-∞'} and ${definition.maximum ?? '∞'}`,
+            { paramName: definition.name, value: parsed, min: definition.minimum, max: definition.maximum }
+          );
+        }
+        return String(parsed);
+      }
+
+    case 'boolean': {
+      const normalized = value.toLowerCase();
+      if (normalized !== 'true' && normalized !== 'false') {
+        throw new ValidationError(`Argument '${definition.name}' must be true or false`, {
+          paramName: definition.name,
+          value,
+        });
+      }
+      return normalized;
+    }
+
+    case 'enum': {
+      const match = (definition.values || []).find(allowed => allowed.toLowerCase() === value.toLowerCase());
+      if (!match) {
+        throw new ValidationError(
+          `Argument '${definition.name}' must be one of: ${(definition.values || []).join(', ')}`,
+          { paramName: definition.name, value, allowedValues: definition.values }
+        );
+      }
+      return match;
+    }
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Fill {{argument}} placeholders and {{#argument}}...{{/argument}} sections
+ */
+function fillTemplate(text: string, values: Record<string, string | undefined>): string {
+  const withSections = text.replace(
+    /\{\{#([\w-]+)\}\}([\s\S]*?)\{\{\/\1\}\}/g,
+    (section, name: string, body: string) => (values[name] && values[name] !== 'false' ? body : '')
+  );
+  return withSections.replace(/\{\{([\w-]+)\}\}/g, (placeholder, name: string) => values[name] ?? '');
+}
+
+/**
+ * Render a template with the given arguments
+ * @throws ValidationError if an argument is missing, has the wrong type or is unknown
+ */
+export function renderPrompt(template: PromptTemplate, args: Record<string, string> = {}): GetPromptResult {
+  const known = new Set(template.arguments.map(argument => argument.name));
+  const unknown = Object.keys(args).filter(name => !known.has(name));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown argument(s) for prompt '${template.name}': ${unknown.join(', ')}`, {
+      promptName: template.name,
+      unknownArguments: unknown,
+    });
+  }
+
+  const values: Record<string, string | undefined> = {};
+  for (const definition of template.arguments) {
+    values[definition.name] = parseArgument(definition, args[definition.name]);
+  }
+
+  return {
+    description: template.description,
+    messages: template.messages.map(message => ({
+      role: message.role,
+      content: { type: 'text', text: fillTemplate(message.text, values) },
+    })),
+  };
+}
+
+/**
+ * Describe a template for prompts/list
+ * MCP prompt arguments carry no type, so the type and default go into the description.
+ */
+export function describePrompt(template: PromptTemplate): Prompt {
+  return {
+    name: template.name,
+    ...(template.title ? { title: template.title } : {}),
+    description: template.description,
+    arguments: template.arguments.map(argument => {
+      const hints = [
+        argument.type === 'enum' ? `one of: ${(argument.values || []).join(', ')}` : argument.type,
+        argument.minimum !== undefined || argument.maximum !== undefined
+          ? `${argument.minimum ?? ''}-${argument.maximum ?? ''}`
+          : undefined,
+        argument.default !== undefined ? `default: ${argument.default}` : undefined,
+      ].filter(Boolean);
+      return {
+        name: argument.name,
+        description: hints.length > 0 ? `${argument.description} (${hints.join('; ')})` : argument.description,
+        required: !!argument.required,
+      };
+    }),
+  };
+}
@@ -0,0 +1,736 @@
+/**
+ * Built-in tools
+ * Registered through the tool registry like plugin tools. Each tool validates
+ * its arguments in validate() (before signing in, so bad input fails fast) and
+ * does its work in handler().
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolDefinition } from './registry.js';
+import { ValidationError } from '../utils/errors.js';
+import { info, error as logError } from '../utils/logger.js';
+import {
+  requireString,
+  optionalString,
+  optionalInteger,
+  optionalStringArray,
+  inRange,
+  requireEnum,
+  requireArray,
+  requireObject,
+  requireHttpsUrl,
+  requireGuid,
+  optionalBoolean,
+  maxLength,
+  validateKqlFilter,
+} from '../utils/validation.js';
+import {
+  logout,
+  switchAccount,
+  getAuthManager,
+  getAuthenticationStatus,
+} from '../auth/identity.js';
+import {
+  copilotRetrieval,
+  RetrievalDataSource,
+  RetrievalOptions,
+  RETRIEVAL_FILTER_PROPERTIES,
+  RETRIEVAL_DATA_SOURCES,
+  DEFAULT_RETRIEVAL_DATA_SOURCES,
+  MAX_RETRIEVAL_RESULTS,
+  trimRetrievalResponse,
+  RETRIEVAL_RESPONSE_SCHEMA,
+  RETRIEVAL_PERMISSIONS,
+} from '../tools/retrieval.js';
+import {
+  copilotSearch,
+  SearchOptions,
+  trimSearchResponse,
+  MAX_SEARCH_PAGE_SIZE,
+  MAX_SEARCH_RESULTS,
+  SEARCH_RESPONSE_SCHEMA,
+  SEARCH_PERMISSIONS,
+  SEARCH_ENDPOINT,
+} from '../tools/search.js';
+import { toGraphEndpoint } from '../utils/httpClient.js';
+import { getResponseCache, buildCacheKey, withCacheStatus, CACHE_INFO_SCHEMA } from '../utils/cache.js';
+import {
+  OUTPUT_PROPERTIES,
+  TRUNCATION_SCHEMA,
+  OutputFormat,
+  FormattedOutput,
+  resolveOutputBudget,
+  resolveOutputFormat,
+  formatToolOutput,
+} from '../utils/output.js';
+import { formatRetrievalMarkdown, formatSearchMarkdown, formatChatMarkdown } from '../utils/markdown.js';
+import { JsonSchema, extendJsonSchema } from '../utils/schema.js';
+import {
+  copilotChat,
+  ChatOptions,
+  ChatOutputMode,
+  ChatProgress,
+  ChatContextSnippet,
+  CHAT_OUTPUT_MODES,
+  CHAT_ANSWER_SCHEMA,
+  CHAT_PERMISSIONS,
+  toChatAnswer,
+  MAX_CHAT_FILES,
+  MAX_CHAT_CONTEXT_SNIPPETS,
+  startNewConversation,
+  listConversations,
+  switchConversation,
+  resetConversation,
+} from '../tools/chat.js';
+
+/**
+ * Add the cache marker and the truncation entry that results may carry to an output schema
+ */
+function withResultMetadata(schema: JsonSchema): JsonSchema {
+  return extendJsonSchema(schema, { cache: CACHE_INFO_SCHEMA, truncation: TRUNCATION_SCHEMA });
+}
+
+/**
+ * Build a tool result with text content for older clients and structured
+ * content matching the tool's outputSchema
+ */
+function structuredToolResult(output: FormattedOutput, structured: FormattedOutput = output): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: output.text,
+      },
+    ],
+    structuredContent: structured.value,
+  };
+}
+
+/**
+ * Build a tool result from a JSON value
+ */
+function jsonToolResult(value: unknown): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Output size and format arguments shared by the data tools
+ */
+interface OutputParams {
+  outputBudget: number;
+  format: OutputFormat;
+}
+
+const logoutTool: ToolDefinition = {
+  name: 'm365copilotlogout',
+  description: `Logs out the current user by clearing all cached credentials and authentication state. This tool does not require authentication and can be called at any time.
+
+Use this when:
+- User wants to switch to a different Microsoft 365 account
+- User wants to clear their authentication session
+- User explicitly requests to logout or sign out
+
+After calling this tool:
+- All cached credentials will be cleared (authentication record and token cache)
+- Cached results and remembered Copilot conversations of the account are cleared too
+- The server keeps running; on the next tool call, the user will be prompted to log in again
+
+To sign in as another account right away, use m365copilotlogin instead.`,
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+  handler: async () => {
+    // No authentication required for logout
+    info('Processing logout request');
+
+    // Call the logout function (also clears the document resources of every session)
+    logout();
+
+    return jsonToolResult({
+      success: true,
+      message: 'Logout successful. All cached credentials have been cleared.',
+      nextSteps: [
+        'You will be prompted to log in again on the next tool call.',
+        'To sign in as a different account now, use m365copilotlogin.',
+      ],
+    });
+  },
+};
+
+const whoamiTool: ToolDefinition = {
+  name: 'm365copilotwhoami',
+  description: `Shows who is signed in to Microsoft 365 and how, without signing in. This tool does not require authentication and can be called at any time.
+
+Use this when:
+- A tool call failed with an authentication or permission error
+- User asks which account or tenant they are signed in with
+- User wants to check which Graph permissions were granted
+
+Reports the signed-in account and tenant, the auth method and credential type, the expiry and granted permissions of the tokens held in memory compared with the permissions the tools need (missingPermissions), the local cache files, and whether the persistent token cache is encrypted.`,
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+  // No authentication required - reports local state only
+  handler: async () => jsonToolResult(getAuthenticationStatus()),
+};
+
+/**
+ * Tenant IDs: a GUID or a domain name
+ */
+const TENANT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9.-]*$/;
+
+interface LoginParams {
+  loginHint?: string;
+  tenantId?: string;
+}
+
+const loginTool: ToolDefinition<LoginParams> = {
+  name: 'm365copilotlogin',
+  description: `Signs in to Microsoft 365, replacing the current account, without restarting the MCP server. Opens the browser sign-in (or prints a device code in headless environments) and waits until the sign-in completes. This tool does not require authentication.
+
+Use this when:
+- User wants to switch to a different Microsoft 365 account
+- User wants to sign in to a different tenant (e.g. as a guest)
+- User explicitly requests to log in or sign in again
+
+The previous account is logged out first: its cached credentials, cached results and remembered Copilot conversations are cleared.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      loginHint: {
+        type: 'string',
+        description: 'Account to preselect on the sign-in page (e.g. user@contoso.com)',
+      },
+      tenantId: {
+        type: 'string',
+        description: 'Tenant ID or domain to sign in to (default: the configured tenant)',
+      },
+    },
+    required: [],
+  },
+  // No authentication required - this tool performs the sign-in
+  validate: args => {
+    const tenantId = optionalString(args.tenantId, 'tenantId');
+    if (tenantId !== undefined && !TENANT_ID_PATTERN.test(tenantId)) {
+      throw new ValidationError('tenantId must be a tenant GUID or domain name', { tenantId });
+    }
+    return { loginHint: optionalString(args.loginHint, 'loginHint'), tenantId };
+  },
+  sensitiveArguments: ['loginHint'],
+  handler: async params => {
+    info('Processing login request', { tenantId: params.tenantId });
+
+    // Signs out first, which clears the document resources of every session
+    const account = await switchAccount(params);
+
+    return jsonToolResult({
+      success: true,
+      message: `Signed in as ${account.username}.`,
+      account,
+    });
+  },
+};
+
+interface RetrievalParams extends OutputParams {
+  queryString: string;
+  options: RetrievalOptions;
+}
+
+const retrievalTool: ToolDefinition<RetrievalParams> = {
+  name: 'm365copilotretrieval',
+  description: `Retrieves relevant text extracts from user's SharePoint and OneDrive content, and optionally from Microsoft 365 Copilot connectors (e.g. Jira, ServiceNow, Confluence), to answer questions using RAG (Retrieval-Augmented Generation). Returns text snippets with relevance scores and the data source of each hit - ideal for grounding answers in M365 data.
+
+Use this when:
+- User asks questions that need answers from their M365 content (e.g., "What did the team decide about the project?")
+- You need text content to support your response with specific information
+- Grounding AI responses with actual document content is required
+
+Example queries: "project deadlines", "budget approval status", "team meeting notes about feature X"
+
+To include Copilot connector content, add "externalItem" to dataSources and optionally pass the connector connectionIds.
+
+Optionally narrow results with a KQL filterExpression (e.g. 'FileExtension:"docx" AND LastModifiedTime>=2024-01-01', 'Path:"https://contoso.sharepoint.com/sites/HR"'), change the number of results, or choose which metadata fields are returned.
+
+DO NOT use for: Finding document links (use m365copilotsearch instead) or interactive conversations (use m365copilotchat instead).`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      queryString: {
+        type: 'string',
+        description: 'Natural language query to search for relevant content in Microsoft 365',
+      },
+      filterExpression: {
+        type: 'string',
+        description: `Optional KQL filter to scope results. Supported properties: ${RETRIEVAL_FILTER_PROPERTIES.join(', ')}. Example: 'FileExtension:"pdf" AND Author:"Megan Bowen"'`,
+      },
+      maximumNumberOfResults: {
+        type: 'integer',
+        minimum: 1,
+        maximum: MAX_RETRIEVAL_RESULTS,
+        description: `Optional maximum number of results per data source (1-${MAX_RETRIEVAL_RESULTS}, default: 5)`,
+      },
+      resourceMetadata: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Optional metadata fields to return for each result (default: ["title", "author"])',
+      },
+      dataSources: {
+        type: 'array',
+        items: { type: 'string', enum: [...RETRIEVAL_DATA_SOURCES] },
+        description: 'Optional data sources to query in parallel (default: ["sharePoint", "oneDriveBusiness"]). Use "externalItem" for Copilot connector content.',
+      },
+      connectionIds: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Optional Copilot connector connection IDs to query when "externalItem" is selected (default: all connections). Adds "externalItem" to the default data sources when dataSources is omitted.',
+      },
+      ...OUTPUT_PROPERTIES,
+    },
+    required: ['queryString'],
+  },
+  outputSchema: withResultMetadata(RETRIEVAL_RESPONSE_SCHEMA),
+  scopes: RETRIEVAL_PERMISSIONS,
+  validate: args => {
+    const queryString = requireString(args.queryString, 'queryString');
+    const filterExpression = optionalString(args.filterExpression, 'filterExpression');
+    if (filterExpression) {
+      validateKqlFilter(filterExpression, 'filterExpression', RETRIEVAL_FILTER_PROPERTIES);
+    }
+    const maximumNumberOfResults = optionalInteger(args.maximumNumberOfResults, 'maximumNumberOfResults');
+    if (maximumNumberOfResults !== undefined) {
+      inRange(maximumNumberOfResults, 1, MAX_RETRIEVAL_RESULTS, 'maximumNumberOfResults');
+    }
+    const resourceMetadata = optionalStringArray(args.resourceMetadata, 'resourceMetadata');
+    const connectionIds = optionalStringArray(args.connectionIds, 'connectionIds');
+    let dataSources: RetrievalDataSource[] | undefined = optionalStringArray(args.dataSources, 'dataSources')?.map(
+      (dataSource, index) => requireEnum(dataSource, `dataSources[${index}]`, RETRIEVAL_DATA_SOURCES)
+    );
+    if (connectionIds) {
+      if (!dataSources) {
+        dataSources = [...DEFAULT_RETRIEVAL_DATA_SOURCES, 'externalItem'];
+      } else if (!dataSources.includes('externalItem')) {
+        throw new ValidationError(`Parameter 'connectionIds' requires 'externalItem' in dataSources`, {
+          paramName: 'connectionIds',
+          dataSources,
+        });
+      }
+    }
+
+    return {
+      queryString,
+      options: {
+        filterExpression,
+        maximumNumberOfResults,
+        resourceMetadata,
+        dataSources: dataSources && [...new Set(dataSources)],
+        connectionIds,
+      },
+      outputBudget: resolveOutputBudget('m365copilotretrieval', args),
+      format: resolveOutputFormat(args),
+    };
+  },
+  handler: async ({ queryString, options, outputBudget, format }, { documents, notifyResourceListChanged }) => {
+    // Call the Copilot Retrieval API (or reuse a recent identical call)
+    const accountId = getAuthManager().getAccountId();
+    const cached = await getResponseCache().getOrFetch(
+      buildCacheKey('m365copilotretrieval', { queryString, ...options }, accountId),
+      () => copilotRetrieval(queryString, options)
+    );
+    if (documents.addRetrievalHits(queryString, cached.value.retrievalHits, accountId)) {
+      notifyResourceListChanged();
+    }
+
+    // Return the raw JSON response, marked if it came from the cache
+    return structuredToolResult(formatToolOutput(withCacheStatus(cached), outputBudget, {
+      format,
+      toMarkdown: formatRetrievalMarkdown,
+      trimmer: trimRetrievalResponse,
+      hint: 'Full extracts of each document remain available through resources/read.',
+    }));
+  },
+};
+
+interface SearchParams extends OutputParams {
+  query: string;
+  options: SearchOptions;
+}
+
+const searchTool: ToolDefinition<SearchParams> = {
+  name: 'm365copilotsearch',
+  description: `Searches across SharePoint, OneDrive, and other M365 content to find and locate specific documents. Returns document links with preview text - ideal for document discovery and navigation.
+
+Use this when:
+- User wants to find or locate specific files/documents (e.g., "Find the VPN setup guide")
+- User needs document links to open or share
+- Building a list of relevant documents
+
+Example queries: "quarterly budget spreadsheet", "network configuration document", "presentation about product launch"
+
+Results are paged: when the response contains "@odata.nextLink", pass it back as nextLink (with the same query) to get the next page. Use maxResults to collect several pages in one call.
+
+DO NOT use for: Extracting text to answer questions (use m365copilotretrieval instead) or asking Copilot questions (use m365copilotchat instead).`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Natural language search query to find relevant documents in Microsoft 365',
+      },
+      pageSize: {
+        type: 'integer',
+        minimum: 1,
+        maximum: MAX_SEARCH_PAGE_SIZE,
+        description: `Optional number of results per page (1-${MAX_SEARCH_PAGE_SIZE})`,
+      },
+      nextLink: {
+        type: 'string',
+        description: 'Optional "@odata.nextLink" value from a previous m365copilotsearch response, to fetch the next page',
+      },
+      maxResults: {
+        type: 'integer',
+        minimum: 1,
+        maximum: MAX_SEARCH_RESULTS,
+        description: `Optional: follow pages server-side and return up to this many results (1-${MAX_SEARCH_RESULTS})`,
+      },
+      ...OUTPUT_PROPERTIES,
+    },
+    required: ['query'],
+  },
+  outputSchema: withResultMetadata(SEARCH_RESPONSE_SCHEMA),
+  scopes: SEARCH_PERMISSIONS,
+  validate: args => {
+    const query = requireString(args.query, 'query');
+    const pageSize = optionalInteger(args.pageSize, 'pageSize');
+    if (pageSize !== undefined) {
+      inRange(pageSize, 1, MAX_SEARCH_PAGE_SIZE, 'pageSize');
+    }
+    const nextLink = optionalString(args.nextLink, 'nextLink');
+    if (nextLink) {
+      // Only follow links back to the Copilot Search endpoint
+      toGraphEndpoint(nextLink, SEARCH_ENDPOINT, 'nextLink');
+    }
+    const maxResults = optionalInteger(args.maxResults, 'maxResults');
+    if (maxResults !== undefined) {
+      inRange(maxResults, 1, MAX_SEARCH_RESULTS, 'maxResults');
+    }
+
+    return {
+      query,
+      options: { pageSize, nextLink, maxResults },
+      outputBudget: resolveOutputBudget('m365copilotsearch', args),
+      format: resolveOutputFormat(args),
+    };
+  },
+  handler: async ({ query, options, outputBudget, format }, { documents, notifyResourceListChanged }) => {
+    // Call the Copilot Search API (or reuse a recent identical call)
+    const accountId = getAuthManager().getAccountId();
+    const cached = await getResponseCache().getOrFetch(
+      buildCacheKey('m365copilotsearch', { query, ...options }, accountId),
+      () => copilotSearch(query, options)
+    );
+    if (documents.addSearchHits(query, cached.value.searchHits, accountId)) {
+      notifyResourceListChanged();
+    }
+
+    // Return the raw JSON response, marked if it came from the cache
+    return structuredToolResult(formatToolOutput(withCacheStatus(cached), outputBudget, {
+      format,
+      toMarkdown: formatSearchMarkdown,
+      trimmer: trimSearchResponse,
+      hint: 'Use a smaller pageSize or maxResults to page through the omitted hits.',
+    }));
+  },
+};
+
+interface ChatParams extends OutputParams {
+  message: string;
+  timeZone: string;
+  conversationId?: string;
+  options: Omit<ChatOptions, 'onProgress'>;
+  outputMode: ChatOutputMode;
+}
+
+const chatTool: ToolDefinition<ChatParams> = {
+  name: 'm365copilotchat',
+  description: `Enables conversational AI interactions with Microsoft 365 Copilot. Maintains conversation context for multi-turn dialogues - ideal for complex queries, follow-up questions, and time-aware requests.
+
+Use this when:
+- User wants to have a conversation with Copilot (e.g., "Ask Copilot about my schedule")
+- Questions involve time, calendar, or scheduling (e.g., "What meetings do I have tomorrow?")
+- Follow-up questions or clarifications are needed
+- Complex queries that benefit from Copilot's reasoning (e.g., "Summarize team discussions and action items")
+
+Example messages: "What's on my calendar tomorrow?", "Summarize recent emails about the project", "Who should I follow up with this week?"
+
+The reply is streamed: if the request includes a progressToken, partial reply text is sent as progress notifications while Copilot is responding.
+
+Requires timezone parameter (IANA format: "America/New_York", "Europe/London", "Asia/Shanghai").
+
+To ground the answer on specific documents, pass their URLs in files (e.g. links returned by m365copilotsearch). Extra text Copilot should consider can be passed in additionalContext. Set enableWebGrounding to false to keep the answer to work content only.
+
+By default only the latest Copilot reply is returned, with numbered citations [n] (title and URL) and a sensitivity label summary. Adaptive cards in the reply are rendered as Markdown. Set outputMode to "raw" to also get the full Graph response with every message and raw attributions, in raw.
+
+DO NOT use for: Simple text retrieval (use m365copilotretrieval instead) or finding documents (use m365copilotsearch instead).`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      message: {
+        type: 'string',
+        description: 'The message or question to send to Copilot',
+      },
+      conversationId: {
+        type: 'string',
+        description: 'Optional conversation ID to continue an existing conversation. If not provided, a conversation will be created automatically and reused within the session.',
+      },
+      timeZone: {
+        type: 'string',
+        description: 'User timezone in IANA format (e.g., "America/New_York", "Asia/Shanghai", "Europe/London"). REQUIRED - Must be a valid IANA timezone identifier.',
+      },
+      files: {
+        type: 'array',
+        items: { type: 'string' },
+        maxItems: MAX_CHAT_FILES,
+        description: `Optional https URLs of SharePoint or OneDrive files to ground the answer on (up to ${MAX_CHAT_FILES})`,
+      },
+      additionalContext: {
+        type: 'array',
+        maxItems: MAX_CHAT_CONTEXT_SNIPPETS,
+        items: {
+          type: 'object',
+          properties: {
+            text: { type: 'string', description: 'Context text' },
+            description: { type: 'string', description: 'Optional short description of the context' },
+          },
+          required: ['text'],
+        },
+        description: `Optional extra context snippets for Copilot to consider (up to ${MAX_CHAT_CONTEXT_SNIPPETS})`,
+      },
+      enableWebGrounding: {
+        type: 'boolean',
+        description: 'Optional: true to allow web grounding, false to disable it for this message (default: tenant setting)',
+      },
+      outputMode: {
+        type: 'string',
+        enum: [...CHAT_OUTPUT_MODES],
+        description: 'Optional output mode: "answer" returns the latest reply with numbered citations (default), "raw" adds the full Graph response in raw',
+      },
+      ...OUTPUT_PROPERTIES,
+    },
+    required: ['message', 'timeZone'],
+  },
+  outputSchema: withResultMetadata(extendJsonSchema(CHAT_ANSWER_SCHEMA, {
+    raw: { type: 'object', description: 'Full Graph response (outputMode "raw" only)' },
+  })),
+  scopes: CHAT_PERMISSIONS,
+  sensitiveArguments: ['additionalContext'],
+  validate: args => {
+    const message = requireString(args.message, 'message');
+    const timeZone = requireString(args.timeZone, 'timeZone');
+    const conversationId = args.conversationId === undefined || args.conversationId === null
+      ? undefined
+      : requireGuid(args.conversationId, 'conversationId');
+    const files = optionalStringArray(args.files, 'files')?.map(
+      (file, index) => requireHttpsUrl(file, `files[${index}]`)
+    );
+    if (files && files.length > MAX_CHAT_FILES) {
+      throw new ValidationError(`Parameter 'files' cannot contain more than ${MAX_CHAT_FILES} items`, {
+        paramName: 'files',
+        actualLength: files.length,
+      });
+    }
+    const additionalContext: ChatContextSnippet[] | undefined =
+      args.additionalContext === undefined || args.additionalContext === null
+        ? undefined
+        : requireArray(args.additionalContext, 'additionalContext').map((item, index) => {
+            const snippet = requireObject(item, `additionalContext[${index}]`);
+            const description = optionalString(snippet.description, `additionalContext[${index}].description`);
+            return {
+              text: maxLength(requireString(snippet.text, `additionalContext[${index}].text`), 10000, `additionalContext[${index}].text`),
+              ...(description ? { description } : {}),
+            };
+          });
+    if (additionalContext && additionalContext.length > MAX_CHAT_CONTEXT_SNIPPETS) {
+      throw new ValidationError(`Parameter 'additionalContext' cannot contain more than ${MAX_CHAT_CONTEXT_SNIPPETS} items`, {
+        paramName: 'additionalContext',
+        actualLength: additionalContext.length,
+      });
+    }
+    const enableWebGrounding = optionalBoolean(args.enableWebGrounding, 'enableWebGrounding');
+    const outputMode = args.outputMode === undefined || args.outputMode === null
+      ? 'answer'
+      : requireEnum(args.outputMode, 'outputMode', CHAT_OUTPUT_MODES);
+    const outputBudget = resolveOutputBudget('m365copilotchat', args);
+    const format = resolveOutputFormat(args);
+    if (outputMode === 'raw' && format === 'markdown') {
+      throw new ValidationError(`Parameter 'outputMode' must be 'answer' when format is 'markdown'`, {
+        paramName: 'outputMode',
+        outputMode,
+        format,
+      });
+    }
+
+    return {
+      message,
+      timeZone,
+      conversationId,
+      options: { files, additionalContext, enableWebGrounding },
+      outputMode,
+      outputBudget,
+      format,
+    };
+  },
+  handler: async ({ message, timeZone, conversationId, options, outputMode, outputBudget, format }, { extra, conversations }) => {
+    // Forward partial replies as progress notifications when the client asked for them
+    const progressToken = extra._meta?.progressToken;
+    let progressNotifications = Promise.resolve();
+    // MCP requires progress to increase with every notification, and the reply text can restart
+    // with a new segment, so count the characters received rather than the reply length
+    let received = 0;
+    const onProgress = progressToken === undefined
+      ? undefined
+      : (progress: ChatProgress) => {
+          received += progress.delta.length;
+          const value = received;
+          progressNotifications = progressNotifications
+            .then(() => extra.sendNotification({
+              method: 'notifications/progress',
+              params: {
+                progressToken,
+                progress: value,
+                message: progress.delta,
+              },
+            }))
+            .catch(error => logError('Failed to send progress notification', error));
+        };
+
+    // Call the Copilot Chat API
+    const result = await copilotChat(conversations, message, conversationId, timeZone, { ...options, onProgress });
+    await progressNotifications;
+
+    // Return the compact answer, with the raw JSON response added in raw mode (text and structured content match)
+    const answer = toChatAnswer(result);
+    return structuredToolResult(outputMode === 'raw'
+      ? formatToolOutput({ ...answer, raw: result }, outputBudget)
+      : formatToolOutput(answer, outputBudget, { format, toMarkdown: formatChatMarkdown }));
+  },
+};
+
+const newConversationTool: ToolDefinition<{ displayName?: string }> = {
+  name: 'm365copilotnewconversation',
+  description: `Starts a fresh Microsoft 365 Copilot conversation and makes it the active one. Later m365copilotchat calls without a conversationId continue this conversation.
+
+Use this when:
+- Starting a new, unrelated task that should not inherit earlier chat context
+- Keeping separate threads for separate tasks (give each one a name)
+
+The optional name can be used later with m365copilotswitchconversation.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Optional friendly name for the conversation (e.g., "budget review")',
+      },
+    },
+    required: [],
+  },
+  scopes: CHAT_PERMISSIONS,
+  validate: args => ({ displayName: optionalString(args.name, 'name') }),
+  handler: async ({ displayName }, { conversations }) => {
+    const conversation = await startNewConversation(conversations, displayName);
+    return jsonToolResult({ success: true, activeConversation: conversation });
+  },
+};
+
+const listConversationsTool: ToolDefinition = {
+  name: 'm365copilotlistconversations',
+  description: `Lists the Copilot conversations this server has created or used, most recently used first, with display name, turn count, last-used time and which one is active. This tool does not require authentication.`,
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+  // No authentication required - lists local state only
+  handler: async (_params, { conversations }) => jsonToolResult({
+    activeConversationId: conversations.getActiveConversationId(),
+    conversations: listConversations(conversations),
+  }),
+};
+
+const switchConversationTool: ToolDefinition<{ idOrName: string }> = {
+  name: 'm365copilotswitchconversation',
+  description: `Makes an existing Copilot conversation the active one, by conversation ID or friendly name. Later m365copilotchat calls without a conversationId continue that conversation. This tool does not require authentication.
+
+Use m365copilotlistconversations to see the available conversations.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      conversation: {
+        type: 'string',
+        description: 'Conversation ID or friendly name (case-insensitive)',
+      },
+    },
+    required: ['conversation'],
+  },
+  // No authentication required - changes local state only
+  validate: args => ({ idOrName: requireString(args.conversation, 'conversation') }),
+  handler: async ({ idOrName }, { conversations }) => {
+    const conversation = switchConversation(conversations, idOrName);
+    return jsonToolResult({ success: true, activeConversation: conversation });
+  },
+};
+
+const resetConversationTool: ToolDefinition<{ forgetAll: boolean }> = {
+  name: 'm365copilotresetconversation',
+  description: `Resets the active Copilot conversation, so the next m365copilotchat call starts a new one. This tool does not require authentication.
+
+Set forgetAll to also clear the list of known conversations.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      forgetAll: {
+        type: 'boolean',
+        description: 'Also forget all conversations known to this server (default: false)',
+      },
+    },
+    required: [],
+  },
+  // No authentication required - changes local state only
+  validate: args => ({ forgetAll: optionalBoolean(args.forgetAll, 'forgetAll') ?? false }),
+  handler: async ({ forgetAll }, { conversations }) => {
+    resetConversation(conversations, forgetAll);
+    return jsonToolResult({
+      success: true,
+      message: forgetAll
+        ? 'All conversations were forgotten. The next chat message starts a new conversation.'
+        : 'Active conversation reset. The next chat message starts a new conversation.',
+    });
+  },
+};
+
+/**
+ * Built-in tools, in the order they are listed to clients
+ */
+export const BUILTIN_TOOLS: readonly ToolDefinition<any>[] = [
+  logoutTool,
+  loginTool,
+  whoamiTool,
+  retrievalTool,
+  searchTool,
+  chatTool,
+  newConversationTool,
+  listConversationsTool,
+  switchConversationTool,
+  resetConversationTool,
+];
@@ -0,0 +1,136 @@
+/**
+ * Built-in tool middleware
+ * Registered in this order, so before hooks run top to bottom and after hooks
+ * bottom to top:
+ * - logging: logs each call (with sensitive arguments hidden) and its duration
+ * - redaction: removes access tokens and secrets from results and errors
+ * - outputSchema: in debug mode, checks structured results against the tool's outputSchema
+ * - validation: runs the tool's validate() before anything talks to Graph
+ * - auth: signs in for tools that declare scopes and gets a token for just those scopes
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolCall, ToolMiddleware } from './registry.js';
+import { AuthenticationError } from '../utils/errors.js';
+import { debug, info, warn, isDebugEnabled } from '../utils/logger.js';
+import { JsonSchema, checkAgainstSchema } from '../utils/schema.js';
+import { getAuthManager, requireAuthentication, toGraphScopes } from '../auth/identity.js';
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Patterns for credentials that must never reach the client or the logs
+ */
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  // JSON Web Tokens (access and ID tokens)
+  [/\beyJ[\w-]{8,}\.[\w-]{8,}\.[\w-]{8,}/g, REDACTED],
+  // Authorization header values
+  [/\b(Bearer)\s+[\w.~+/-]+=*/gi, `$1 ${REDACTED}`],
+  // Secrets in query strings, form bodies and JSON
+  [/\b(client_secret|clientSecret|refresh_token|access_token|code_verifier)(["']?\s*[:=]\s*["']?)[^"'&\s,}]+/gi, `$1$2${REDACTED}`],
+];
+
+/**
+ * Remove access tokens and secrets from text
+ */
+export function redactSecrets(text: string): string {
+  return SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+function redactValue(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return redactSecrets(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item)]));
+  }
+  return value;
+}
+
+/**
+ * Arguments of a call as they may appear in logs
+ */
+function loggableArguments(call: ToolCall): Record<string, unknown> {
+  const hidden = new Set(call.tool.sensitiveArguments || []);
+  return redactValue(
+    Object.fromEntries(Object.entries(call.args).map(([key, value]) => [key, hidden.has(key) ? REDACTED : value]))
+  ) as Record<string, unknown>;
+}
+
+export const loggingMiddleware: ToolMiddleware = {
+  name: 'logging',
+  before: call => {
+    info(`Received call_tool request for: ${call.tool.name}`, { args: loggableArguments(call) });
+  },
+  after: (call, result) => {
+    debug(`Finished call_tool request for: ${call.tool.name}`, {
+      durationMs: Date.now() - call.startedAt,
+      isError: result.isError === true,
+    });
+  },
+};
+
+export const redactionMiddleware: ToolMiddleware = {
+  name: 'redaction',
+  after: (call, result): CallToolResult => ({
+    ...result,
+    content: result.content.map(item => (item.type === 'text' ? { ...item, text: redactSecrets(item.text) } : item)),
+    ...(result.structuredContent
+      ? { structuredContent: redactValue(result.structuredContent) as Record<string, unknown> }
+      : {}),
+  }),
+};
+
+export const outputSchemaMiddleware: ToolMiddleware = {
+  name: 'outputSchema',
+  after: (call, result) => {
+    const { outputSchema, name } = call.tool;
+    if (!isDebugEnabled() || !outputSchema || result.isError) {
+      return;
+    }
+    if (!result.structuredContent) {
+      warn('Tool declares an outputSchema but returned no structured content', { name });
+      return;
+    }
+    checkAgainstSchema(name, outputSchema as JsonSchema, result.structuredContent);
+  },
+};
+
+export const validationMiddleware: ToolMiddleware = {
+  name: 'validation',
+  before: call => {
+    call.params = call.tool.validate ? call.tool.validate(call.args) : call.args;
+  },
+};
+
+export const authMiddleware: ToolMiddleware = {
+  name: 'auth',
+  before: async call => {
+    const scopes = call.tool.scopes || [];
+    if (scopes.length === 0) {
+      return;
+    }
+    await requireAuthentication(scopes);
+
+    // Tokens are cached per scope set; permissions not consented to yet are asked for on first use
+    try {
+      await getAuthManager().getAccessToken(toGraphScopes(scopes));
+    } catch (error) {
+      throw new AuthenticationError(
+        `Failed to obtain permissions for ${call.tool.name}: ${error instanceof Error ? error.message : String(error)}`,
+        { tool: call.tool.name, permissions: [...scopes] }
+      );
+    }
+  },
+};
+
+export const DEFAULT_MIDDLEWARE: readonly ToolMiddleware[] = [
+  loggingMiddleware,
+  redactionMiddleware,
+  outputSchemaMiddleware,
+  validationMiddleware,
+  authMiddleware,
+];
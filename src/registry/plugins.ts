@@ -0,0 +1,161 @@
+/**
+ * Plugin loader
+ * Plugins are ES modules listed in M365_PLUGIN_PATH (files or directories,
+ * separated like PATH). Each module's default export (or `register` export)
+ * is called once at startup with a registry to add tools and middleware to,
+ * and helpers for calling Microsoft Graph. Plugins run with the server's
+ * permissions, so only load code you trust.
+ *
+ * Example:
+ * export default function register(registry, { callGraphApi, getAccessToken, validation }) {
+ *   registry.register({
+ *     name: 'm365recentfiles',
+ *     description: 'Lists files the user opened recently',
+ *     inputSchema: { type: 'object', properties: { top: { type: 'integer' } } },
+ *     scopes: ['Files.Read.All'],
+ *     validate: args => ({ top: validation.optionalInteger(args.top, 'top') ?? 10 }),
+ *     handler: async ({ top }) => {
+ *       const token = await getAccessToken(['Files.Read.All']);
+ *       const result = await callGraphApi(`/v1.0/me/drive/recent?$top=${top}`, 'GET', null, token);
+ *       return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+ *     },
+ *   });
+ * }
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import * as validation from '../utils/validation.js';
+import { callGraphApi } from '../utils/httpClient.js';
+import {
+  APIError,
+  AuthenticationError,
+  ConfigurationError,
+  ValidationError,
+} from '../utils/errors.js';
+import { debug, info, warn, error as logError } from '../utils/logger.js';
+import { getAuthManager, toGraphScopes } from '../auth/identity.js';
+import type { ToolDefinition, ToolMiddleware, ToolRegistry } from './registry.js';
+
+const PLUGIN_EXTENSIONS = ['.js', '.mjs'];
+
+/**
+ * Registry view given to a plugin; registrations are attributed to the plugin file
+ */
+export interface PluginRegistry {
+  register<P>(tool: ToolDefinition<P>): void;
+  use(middleware: ToolMiddleware): void;
+}
+
+/**
+ * Helpers given to plugins, so they don't depend on this package's file layout
+ */
+export interface PluginHelpers {
+  /** Call a Graph endpoint (path relative to the cloud's Graph host) with retries */
+  callGraphApi: typeof callGraphApi;
+  /** Get a Graph access token for permissions such as 'Files.Read.All' */
+  getAccessToken(permissions: readonly string[]): Promise<string>;
+  /** Argument validation helpers (requireString, optionalInteger, ...) */
+  validation: typeof validation;
+  errors: {
+    ValidationError: typeof ValidationError;
+    AuthenticationError: typeof AuthenticationError;
+    APIError: typeof APIError;
+    ConfigurationError: typeof ConfigurationError;
+  };
+  log: { debug: typeof debug; info: typeof info; warn: typeof warn; error: typeof logError };
+}
+
+export type PluginRegisterFunction = (registry: PluginRegistry, helpers: PluginHelpers) => void | Promise<void>;
+
+const helpers: PluginHelpers = {
+  callGraphApi,
+  getAccessToken: permissions => getAuthManager().getAccessToken(toGraphScopes(permissions)),
+  validation,
+  errors: { ValidationError, AuthenticationError, APIError, ConfigurationError },
+  log: { debug, info, warn, error: logError },
+};
+
+/**
+ * Get the configured plugin paths (M365_PLUGIN_PATH)
+ */
+export function getPluginPaths(): string[] {
+  return (process.env.M365_PLUGIN_PATH || '')
+    .split(path.delimiter)
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => path.resolve(entry));
+}
+
+/**
+ * Expand the configured paths into plugin module files
+ * @throws ConfigurationError if a path does not exist
+ */
+function findPluginFiles(paths: string[]): string[] {
+  const files: string[] = [];
+  for (const pluginPath of paths) {
+    const stats = fs.statSync(pluginPath, { throwIfNoEntry: false });
+    if (!stats) {
+      throw new ConfigurationError(`Plugin path not found: ${pluginPath}`, { setting: 'M365_PLUGIN_PATH' });
+    }
+    if (stats.isDirectory()) {
+      files.push(
+        ...fs.readdirSync(pluginPath)
+          .filter(file => PLUGIN_EXTENSIONS.includes(path.extname(file)))
+          .sort()
+          .map(file => path.join(pluginPath, file))
+      );
+    } else {
+      files.push(pluginPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Load the configured plugins into a registry
+ * A plugin that fails to load stops startup, so a misconfiguration isn't
+ * mistaken for a missing tool later.
+ * @returns Paths of the loaded plugin files
+ * @throws ConfigurationError naming the plugin that failed
+ */
+export async function loadPlugins(registry: ToolRegistry, paths: string[] = getPluginPaths()): Promise<string[]> {
+  const files = findPluginFiles(paths);
+
+  for (const file of files) {
+    const source = `plugin ${path.basename(file)}`;
+    let register: unknown;
+    try {
+      const module = await import(pathToFileURL(file).href);
+      register = module.default ?? module.register;
+    } catch (error) {
+      throw new ConfigurationError(`Failed to load plugin ${file}: ${error instanceof Error ? error.message : String(error)}`, {
+        setting: 'M365_PLUGIN_PATH',
+      });
+    }
+    if (typeof register !== 'function') {
+      throw new ConfigurationError(`Plugin ${file} must export a register function (default export or "register")`, {
+        setting: 'M365_PLUGIN_PATH',
+      });
+    }
+
+    const pluginRegistry: PluginRegistry = {
+      register: tool => registry.register(tool, source),
+      use: middleware => registry.use(middleware),
+    };
+    try {
+      await (register as PluginRegisterFunction)(pluginRegistry, helpers);
+    } catch (error) {
+      if (error instanceof ConfigurationError) {
+        throw error;
+      }
+      throw new ConfigurationError(`Plugin ${file} failed to register: ${error instanceof Error ? error.message : String(error)}`, {
+        setting: 'M365_PLUGIN_PATH',
+      });
+    }
+    info('Loaded plugin', { path: file });
+  }
+
+  return files;
+}
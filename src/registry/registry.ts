@@ -0,0 +1,229 @@
+/**
+ * Tool registry
+ * Every tool (built-in or from a plugin) declares its name, schemas, required
+ * Graph permissions and handler, and is registered here. Calls run through a
+ * middleware chain: before hooks in registration order, then the handler, then
+ * after hooks in reverse order.
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { DocumentResourceStore } from '../resources/documents.js';
+import type { ConversationSession } from '../tools/chat.js';
+import { ConfigurationError, ValidationError, formatErrorResponse } from '../utils/errors.js';
+import { debug, error as logError } from '../utils/logger.js';
+import { getSettings } from '../config/settings.js';
+import { DEFAULT_MIDDLEWARE } from './middleware.js';
+import { BUILTIN_TOOLS } from './builtinTools.js';
+
+/**
+ * Everything a tool handler can use besides its arguments
+ */
+export interface ToolContext {
+  /** Server handling the call (one per client session) */
+  server: Server;
+  /** Request metadata (e.g. progressToken), cancellation signal and notification sender */
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>;
+  /** Documents surfaced by search and retrieval, exposed as resources */
+  documents: DocumentResourceStore;
+  /** Active Copilot conversation of this client */
+  conversations: ConversationSession;
+  /** Tell the client the resource list changed */
+  notifyResourceListChanged(): void;
+}
+
+export interface ToolDefinition<P = Record<string, unknown>> {
+  name: string;
+  title?: string;
+  description: string;
+  inputSchema: Tool['inputSchema'];
+  /** Schema of structuredContent, for tools that return it */
+  outputSchema?: Tool['outputSchema'];
+  /**
+   * Microsoft Graph permissions the tool needs (e.g. 'Files.Read.All')
+   * Declare only what the tool uses: consent is asked for when the tool is
+   * first called. Tools without scopes run without signing in.
+   */
+  scopes?: readonly string[];
+  /** Validate and normalize the arguments; throw ValidationError on bad input */
+  validate?: (args: Record<string, unknown>) => P;
+  /** Argument names whose values are hidden in logs */
+  sensitiveArguments?: readonly string[];
+  handler: (params: P, context: ToolContext) => Promise<CallToolResult>;
+}
+
+/**
+ * A tool call as seen by middleware
+ */
+export interface ToolCall {
+  tool: ToolDefinition<any>;
+  /** Arguments as sent by the client */
+  args: Record<string, unknown>;
+  /** Arguments passed to the handler (set by the validation middleware, defaults to args) */
+  params?: unknown;
+  context: ToolContext;
+  startedAt: number;
+}
+
+export interface ToolMiddleware {
+  name: string;
+  /** Runs before the handler; throw to reject the call */
+  before?: (call: ToolCall) => void | Promise<void>;
+  /** Runs after the handler, also for error results; return a result to replace it */
+  after?: (call: ToolCall, result: CallToolResult) => CallToolResult | void | Promise<CallToolResult | void>;
+}
+
+/**
+ * Tool names allowed by MCP
+ */
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_.-]{1,128}$/;
+
+/**
+ * Turn an error into a tool error result
+ */
+export function toErrorResult(error: unknown): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(formatErrorResponse(error), null, 2),
+      },
+    ],
+    isError: true,
+  };
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, { tool: ToolDefinition<any>; source: string }>();
+  private middleware: ToolMiddleware[] = [];
+
+  /**
+   * Register a tool
+   * @param source - Where the tool comes from (shown in errors and logs)
+   * @throws ConfigurationError if the definition is invalid or the name is taken
+   */
+  register<P>(tool: ToolDefinition<P>, source: string = 'built-in'): void {
+    if (!tool || typeof tool.name !== 'string' || !TOOL_NAME_PATTERN.test(tool.name)) {
+      throw new ConfigurationError(`${source}: tool name must be 1-128 letters, digits, '_', '-' or '.'`, {
+        name: tool?.name,
+      });
+    }
+    if (typeof tool.handler !== 'function') {
+      throw new ConfigurationError(`${source}: tool "${tool.name}" needs a handler function`);
+    }
+    if (tool.inputSchema?.type !== 'object') {
+      throw new ConfigurationError(`${source}: inputSchema of tool "${tool.name}" must be an object schema`);
+    }
+    if (tool.scopes !== undefined && (!Array.isArray(tool.scopes) || !tool.scopes.every(s => typeof s === 'string'))) {
+      throw new ConfigurationError(`${source}: scopes of tool "${tool.name}" must be a list of permission names`);
+    }
+
+    const existing = this.tools.get(tool.name);
+    if (existing) {
+      throw new ConfigurationError(`${source}: tool "${tool.name}" is already registered by ${existing.source}`);
+    }
+    this.tools.set(tool.name, { tool, source });
+    debug('Registered tool', { name: tool.name, source });
+  }
+
+  /**
+   * Add middleware; it runs after the middleware added before it
+   */
+  use(middleware: ToolMiddleware): void {
+    if (!middleware || typeof middleware.name !== 'string' || (!middleware.before && !middleware.after)) {
+      throw new ConfigurationError('Middleware needs a name and a before or after hook');
+    }
+    this.middleware.push(middleware);
+  }
+
+  get(name: string): ToolDefinition<any> | undefined {
+    return this.tools.get(name)?.tool;
+  }
+
+  /**
+   * Whether the active settings offer the tool to clients (enabledTools)
+   */
+  isEnabled(name: string): boolean {
+    const { enabledTools } = getSettings();
+    return !enabledTools || enabledTools.includes(name);
+  }
+
+  /**
+   * Tool descriptors for tools/list (enabled tools only)
+   */
+  list(): Tool[] {
+    return [...this.tools.values()].filter(({ tool }) => this.isEnabled(tool.name)).map(({ tool }) => ({
+      name: tool.name,
+      ...(tool.title ? { title: tool.title } : {}),
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+      ...(tool.outputSchema ? { outputSchema: tool.outputSchema } : {}),
+    }));
+  }
+
+  /**
+   * Run a tool call through the middleware chain
+   * Arguments the client leaves out are taken from the profile's toolDefaults.
+   * Errors never escape: they are returned as tool error results, which the
+   * after hooks of the middleware that already ran still see.
+   */
+  async call(name: string, args: Record<string, unknown> | undefined, context: ToolContext): Promise<CallToolResult> {
+    const tool = this.get(name);
+    if (!tool || !this.isEnabled(name)) {
+      const error = new ValidationError(tool ? `Tool is disabled by configuration: ${name}` : `Unknown tool: ${name}`, {
+        toolName: name,
+      });
+      logError(`Error handling tool call: ${name}`, error);
+      return toErrorResult(error);
+    }
+
+    const defaults = getSettings().toolDefaults?.[name];
+    const call: ToolCall = { tool, args: { ...defaults, ...args }, context, startedAt: Date.now() };
+    const entered: ToolMiddleware[] = [];
+    let result: CallToolResult;
+
+    try {
+      for (const middleware of this.middleware) {
+        entered.push(middleware);
+        await middleware.before?.(call);
+      }
+      result = await tool.handler(call.params ?? call.args, context);
+    } catch (error) {
+      logError(`Error handling tool call: ${name}`, error);
+      result = toErrorResult(error);
+    }
+
+    for (const middleware of entered.reverse()) {
+      try {
+        result = (await middleware.after?.(call, result)) ?? result;
+      } catch (error) {
+        logError(`Middleware ${middleware.name} failed after tool call: ${name}`, error);
+        result = toErrorResult(error);
+      }
+    }
+
+    return result;
+  }
+}
+
+let toolRegistry: ToolRegistry | null = null;
+
+/**
+ * Get the shared registry with the default middleware and the built-in tools
+ * Plugins are added to it at startup (see plugins.ts).
+ */
+export function getToolRegistry(): ToolRegistry {
+  if (!toolRegistry) {
+    const registry = new ToolRegistry();
+    DEFAULT_MIDDLEWARE.forEach(middleware => registry.use(middleware));
+    BUILTIN_TOOLS.forEach(tool => registry.register(tool));
+    toolRegistry = registry;
+  }
+  return toolRegistry;
+}
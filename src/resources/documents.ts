@@ -0,0 +1,249 @@
+/**
+ * Documents surfaced by search and retrieval, exposed as MCP resources
+ * Every hit returned by the search or retrieval tools is remembered under a
+ * stable URI derived from its webUrl, so clients can attach a document to a
+ * later turn without running the query again.
+ */
+
+import { createHash } from 'crypto';
+import { Resource } from '@modelcontextprotocol/sdk/types.js';
+import type { SearchHit } from '../tools/search.js';
+import type { RetrievalExtract, RetrievalHit } from '../tools/retrieval.js';
+
+/**
+ * URI scheme used for document resources
+ */
+export const DOCUMENT_URI_PREFIX = 'm365copilot://documents/';
+
+/**
+ * Number of recently surfaced documents kept per server
+ */
+export const MAX_DOCUMENT_RESOURCES = 200;
+
+/**
+ * Extracts kept per document (highest relevance first)
+ */
+const MAX_EXTRACTS_PER_DOCUMENT = 10;
+
+/**
+ * Document remembered from a search or retrieval result
+ */
+export interface DocumentResource {
+  uri: string;
+  webUrl: string;
+  title: string;
+  resourceType: string;
+  /** Retrieval data source, when the document came from the Retrieval API */
+  dataSource?: string;
+  /** Preview text from the Search API */
+  preview?: string;
+  /** Extracts from the Retrieval API */
+  extracts: RetrievalExtract[];
+  /** Resource metadata from the Retrieval API */
+  metadata: Record<string, unknown>;
+  /** Tools that surfaced this document */
+  surfacedBy: Array<'search' | 'retrieval'>;
+  /** Query that most recently surfaced this document */
+  lastQuery: string;
+  lastSeenDateTime: string;
+}
+
+/**
+ * Build the stable resource URI for a document URL
+ */
+export function toDocumentUri(webUrl: string): string {
+  const hash = createHash('sha256').update(webUrl.trim()).digest('hex').slice(0, 32);
+  return `${DOCUMENT_URI_PREFIX}${hash}`;
+}
+
+/**
+ * Derive a display title from a document URL (last path segment)
+ */
+function titleFromUrl(webUrl: string): string {
+  try {
+    const segments = new URL(webUrl).pathname.split('/').filter(Boolean);
+    return decodeURIComponent(segments[segments.length - 1] || webUrl);
+  } catch {
+    return webUrl;
+  }
+}
+
+/**
+ * Stores of all open server instances, so an account change clears the documents of every session
+ */
+const stores = new Set<DocumentResourceStore>();
+
+/**
+ * Recently surfaced documents, most recent last
+ * One store per MCP server instance, so HTTP sessions don't see each other's documents.
+ */
+export class DocumentResourceStore {
+  private documents = new Map<string, DocumentResource>();
+  /** Account the documents were found with */
+  private accountId: string | null = null;
+
+  /**
+   * @param onCleared - Called after the documents were cleared (e.g. to notify the client)
+   */
+  constructor(private readonly onCleared: () => void = () => {}) {
+    stores.add(this);
+  }
+
+  /**
+   * Stop tracking the store (when its server closes)
+   */
+  close(): void {
+    stores.delete(this);
+  }
+
+  /**
+   * Remember hits from the Search API
+   * @param accountId - Account the search ran as (see AuthenticationManager.getAccountId)
+   * @returns true if a document was added to the list
+   */
+  addSearchHits(query: string, hits: SearchHit[] | undefined, accountId: string): boolean {
+    this.accountId = accountId;
+    let added = false;
+    for (const hit of hits || []) {
+      const document = this.upsert(hit.webUrl, hit.resourceType, 'search', query);
+      if (!document) {
+        continue;
+      }
+      added = added || document.added;
+      if (hit.preview) {
+        document.resource.preview = hit.preview;
+      }
+    }
+    return added;
+  }
+
+  /**
+   * Remember hits from the Retrieval API
+   * @param accountId - Account the retrieval ran as (see AuthenticationManager.getAccountId)
+   * @returns true if a document was added to the list
+   */
+  addRetrievalHits(query: string, hits: RetrievalHit[] | undefined, accountId: string): boolean {
+    this.accountId = accountId;
+    let added = false;
+    for (const hit of hits || []) {
+      const document = this.upsert(hit.webUrl, hit.resourceType, 'retrieval', query);
+      if (!document) {
+        continue;
+      }
+      added = added || document.added;
+
+      const { resource } = document;
+      resource.dataSource = hit.dataSource;
+      resource.metadata = { ...resource.metadata, ...(hit.resourceMetadata || {}) };
+      if (typeof hit.resourceMetadata?.title === 'string' && hit.resourceMetadata.title) {
+        resource.title = hit.resourceMetadata.title;
+      }
+
+      // Merge extracts from earlier queries, dropping duplicates
+      const extracts = new Map(resource.extracts.map(extract => [extract.text, extract]));
+      for (const extract of hit.extracts || []) {
+        const existing = extracts.get(extract.text);
+        if (!existing || extract.relevanceScore > existing.relevanceScore) {
+          extracts.set(extract.text, extract);
+        }
+      }
+      resource.extracts = [...extracts.values()]
+        .sort((a, b) => b.relevanceScore - a.relevanceScore)
+        .slice(0, MAX_EXTRACTS_PER_DOCUMENT);
+    }
+    return added;
+  }
+
+  /**
+   * List documents as MCP resources, most recently surfaced first
+   */
+  list(): Resource[] {
+    return [...this.documents.values()].reverse().map(document => ({
+      uri: document.uri,
+      name: document.title,
+      title: document.title,
+      description: `${document.resourceType || 'document'} surfaced by ${document.surfacedBy.join(' and ')}: ${document.webUrl}`,
+      mimeType: 'application/json',
+    }));
+  }
+
+  /**
+   * Get a document by resource URI
+   */
+  get(uri: string): DocumentResource | undefined {
+    return this.documents.get(uri);
+  }
+
+  /**
+   * Forget all documents
+   */
+  clear(): void {
+    this.documents.clear();
+    this.accountId = null;
+    this.onCleared();
+  }
+
+  /**
+   * Account the documents were found with, or null if there are none
+   */
+  getAccountId(): string | null {
+    return this.documents.size > 0 ? this.accountId : null;
+  }
+
+  private upsert(
+    webUrl: string | undefined,
+    resourceType: string | undefined,
+    source: 'search' | 'retrieval',
+    query: string
+  ): { resource: DocumentResource; added: boolean } | null {
+    if (!webUrl) {
+      return null;
+    }
+
+    const uri = toDocumentUri(webUrl);
+    const existing = this.documents.get(uri);
+    const resource: DocumentResource = existing || {
+      uri,
+      webUrl,
+      title: titleFromUrl(webUrl),
+      resourceType: resourceType || '',
+      extracts: [],
+      metadata: {},
+      surfacedBy: [],
+      lastQuery: query,
+      lastSeenDateTime: '',
+    };
+
+    if (!resource.resourceType && resourceType) {
+      resource.resourceType = resourceType;
+    }
+    if (!resource.surfacedBy.includes(source)) {
+      resource.surfacedBy.push(source);
+    }
+    resource.lastQuery = query;
+    resource.lastSeenDateTime = new Date().toISOString();
+
+    // Re-insert so the map stays ordered by recency, then drop the oldest entries
+    this.documents.delete(uri);
+    this.documents.set(uri, resource);
+    while (this.documents.size > MAX_DOCUMENT_RESOURCES) {
+      const oldest = this.documents.keys().next().value as string;
+      this.documents.delete(oldest);
+    }
+
+    return { resource, added: !existing };
+  }
+}
+
+/**
+ * Forget the documents of every server instance (called on logout and account switch)
+ * @param accountId - Only clear the stores holding this account's documents (on-behalf-of logout)
+ */
+export function clearDocumentResources(accountId?: string): void {
+  for (const store of stores) {
+    const storeAccountId = store.getAccountId();
+    if (storeAccountId !== null && (accountId === undefined || storeAccountId === accountId)) {
+      store.clear();
+    }
+  }
+}
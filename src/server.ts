@@ -2,20 +2,28 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
-  Tool,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  McpError,
+  ErrorCode,
 } from '@modelcontextprotocol/sdk/types.js';
-import { logger, info, error as logError } from './utils/logger.js';
-import { formatErrorResponse, ValidationError } from './utils/errors.js';
-import { requireString, optionalString } from './utils/validation.js';
-import { requireAuthentication, logout } from './auth/identity.js';
-import { copilotRetrieval } from './tools/retrieval.js';
-import { copilotSearch } from './tools/search.js';
-import { copilotChat } from './tools/chat.js';
+import { info, error as logError } from './utils/logger.js';
+import { ValidationError } from './utils/errors.js';
+import { DocumentResourceStore } from './resources/documents.js';
+import { ConversationSession } from './tools/chat.js';
+import { getPromptTemplates, findPromptTemplate } from './prompts/loader.js';
+import { describePrompt, renderPrompt } from './prompts/templates.js';
+import { ToolRegistry, getToolRegistry } from './registry/registry.js';
+import { onSettingsChange } from './config/settings.js';
+import { runAsCaller, getCallerFromAuthInfo } from './auth/obo.js';
 
 /**
  * Create and configure the MCP server
+ * @param registry - Tools offered by the server (default: built-in tools plus loaded plugins)
  */
-export function createServer(): Server {
+export function createServer(registry: ToolRegistry = getToolRegistry()): Server {
   const server = new Server(
     {
       name: 'm365-copilot-mcp',
@@ -23,244 +31,119 @@ export function createServer(): Server {
     },
     {
       capabilities: {
-        tools: {},
+        tools: {
+          listChanged: true,
+        },
+        resources: {
+          listChanged: true,
+        },
+        prompts: {},
       },
     }
   );
 
-  // Define available tools
-  const tools: Tool[] = [
-    {
-      name: 'm365copilotlogout',
-      description: `Logs out the current user by clearing all cached credentials and authentication state. This tool does not require authentication and can be called at any time.
-
-Use this when:
-- User wants to switch to a different Microsoft 365 account
-- User wants to clear their authentication session
-- User explicitly requests to logout or sign out
-
-After calling this tool:
-- All cached credentials will be cleared (authentication record and token cache)
-- User MUST restart the MCP server for changes to take full effect
-- On next tool call (after restart), user will be prompted to log in again
-
-IMPORTANT: Tell the user they need to restart the MCP server for the logout to take full effect.`,
-      inputSchema: {
-        type: 'object',
-        properties: {},
-        required: [],
-      },
-    },
-    {
-      name: 'm365copilotretrieval',
-      description: `Retrieves relevant text extracts from user's SharePoint and OneDrive content to answer questions using RAG (Retrieval-Augmented Generation). Returns text snippets with relevance scores - ideal for grounding answers in M365 data.
+  // Handle list_prompts request
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    info('Received list_prompts request');
+    return {
+      prompts: getPromptTemplates().map(describePrompt),
+    };
+  });
 
-Use this when:
-- User asks questions that need answers from their M365 content (e.g., "What did the team decide about the project?")
-- You need text content to support your response with specific information
-- Grounding AI responses with actual document content is required
+  // Handle get_prompt request
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: promptArgs } = request.params;
+    info('Received get_prompt request', { name });
 
-Example queries: "project deadlines", "budget approval status", "team meeting notes about feature X"
+    const template = findPromptTemplate(name);
+    if (!template) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`, { name });
+    }
 
-DO NOT use for: Finding document links (use m365copilotsearch instead) or interactive conversations (use m365copilotchat instead).`,
-      inputSchema: {
-        type: 'object',
-        properties: {
-          queryString: {
-            type: 'string',
-            description: 'Natural language query to search for relevant content in Microsoft 365',
-          },
-        },
-        required: ['queryString'],
-      },
-    },
-    {
-      name: 'm365copilotsearch',
-      description: `Searches across SharePoint, OneDrive, and other M365 content to find and locate specific documents. Returns document links with preview text - ideal for document discovery and navigation.
+    try {
+      return renderPrompt(template, promptArgs);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message, error.details);
+      }
+      throw error;
+    }
+  });
 
-Use this when:
-- User wants to find or locate specific files/documents (e.g., "Find the VPN setup guide")
-- User needs document links to open or share
-- Building a list of relevant documents
+  // Active Copilot conversation of this client
+  const conversations = new ConversationSession();
 
-Example queries: "quarterly budget spreadsheet", "network configuration document", "presentation about product launch"
+  const notifyResourceListChanged = () => {
+    server.sendResourceListChanged().catch((err: unknown) => {
+      logError('Failed to send resource list changed notification', err);
+    });
+  };
 
-DO NOT use for: Extracting text to answer questions (use m365copilotretrieval instead) or asking Copilot questions (use m365copilotchat instead).`,
-      inputSchema: {
-        type: 'object',
-        properties: {
-          query: {
-            type: 'string',
-            description: 'Natural language search query to find relevant documents in Microsoft 365',
-          },
-        },
-        required: ['query'],
-      },
-    },
-    {
-      name: 'm365copilotchat',
-      description: `Enables conversational AI interactions with Microsoft 365 Copilot. Maintains conversation context for multi-turn dialogues - ideal for complex queries, follow-up questions, and time-aware requests.
+  // Documents surfaced by search and retrieval, exposed as resources
+  // (cleared in every session when the account changes)
+  const documents = new DocumentResourceStore(notifyResourceListChanged);
 
-Use this when:
-- User wants to have a conversation with Copilot (e.g., "Ask Copilot about my schedule")
-- Questions involve time, calendar, or scheduling (e.g., "What meetings do I have tomorrow?")
-- Follow-up questions or clarifications are needed
-- Complex queries that benefit from Copilot's reasoning (e.g., "Summarize team discussions and action items")
+  // Handle list_resources request
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    info('Received list_resources request');
+    return {
+      resources: documents.list(),
+    };
+  });
 
-Example messages: "What's on my calendar tomorrow?", "Summarize recent emails about the project", "Who should I follow up with this week?"
+  // Handle read_resource request
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    info('Received read_resource request', { uri });
 
-Requires timezone parameter (IANA format: "America/New_York", "Europe/London", "Asia/Shanghai").
+    const document = documents.get(uri);
+    if (!document) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`, { uri });
+    }
 
-DO NOT use for: Simple text retrieval (use m365copilotretrieval instead) or finding documents (use m365copilotsearch instead).`,
-      inputSchema: {
-        type: 'object',
-        properties: {
-          message: {
-            type: 'string',
-            description: 'The message or question to send to Copilot',
-          },
-          conversationId: {
-            type: 'string',
-            description: 'Optional conversation ID to continue an existing conversation. If not provided, a conversation will be created automatically and reused within the session.',
-          },
-          timeZone: {
-            type: 'string',
-            description: 'User timezone in IANA format (e.g., "America/New_York", "Asia/Shanghai", "Europe/London"). REQUIRED - Must be a valid IANA timezone identifier.',
-          },
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(document, null, 2),
         },
-        required: ['message', 'timeZone'],
-      },
-    },
-  ];
+      ],
+    };
+  });
 
   // Handle list_tools request
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     info('Received list_tools request');
     return {
-      tools,
+      tools: registry.list(),
     };
   });
 
   // Handle call_tool request
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
-    info(`Received call_tool request for: ${name}`, { args });
-
-    try {
-      switch (name) {
-        case 'm365copilotlogout': {
-          // No authentication required for logout
-          info('Processing logout request');
-
-          // Call the logout function
-          logout();
-
-          // Return success message with restart instructions
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(
-                  {
-                    success: true,
-                    message: 'Logout successful. All cached credentials have been cleared.',
-                    nextSteps: [
-                      'You MUST restart the MCP server for the logout to take full effect.',
-                      'After restart, you will be prompted to log in again on the next tool call.',
-                      'To restart: stop the current MCP server session and start it again.',
-                    ],
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        }
-
-        case 'm365copilotretrieval': {
-          // Require authentication for this tool
-          await requireAuthentication();
-
-          // Validate and extract parameters
-          const queryString = requireString(args?.queryString, 'queryString');
-
-          // Call the Copilot Retrieval API
-          const result = await copilotRetrieval(queryString);
-
-          // Return the raw JSON response
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(result, null, 2),
-              },
-            ],
-          };
-        }
-
-        case 'm365copilotsearch': {
-          // Require authentication for this tool
-          await requireAuthentication();
-
-          // Validate and extract parameters
-          const query = requireString(args?.query, 'query');
-
-          // Call the Copilot Search API
-          const result = await copilotSearch(query);
-
-          // Return the raw JSON response
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(result, null, 2),
-              },
-            ],
-          };
-        }
-
-        case 'm365copilotchat': {
-          // Require authentication for this tool
-          await requireAuthentication();
-
-          // Validate and extract parameters
-          const message = requireString(args?.message, 'message');
-          const timeZone = requireString(args?.timeZone, 'timeZone');
-          const conversationId = optionalString(args?.conversationId, 'conversationId');
-
-          // Call the Copilot Chat API
-          const result = await copilotChat(message, conversationId, timeZone);
-
-          // Return the raw JSON response
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(result, null, 2),
-              },
-            ],
-          };
-        }
-
-        default:
-          throw new ValidationError(`Unknown tool: ${name}`, { toolName: name });
-      }
-    } catch (error) {
-      logError(`Error handling tool call: ${name}`, error);
-      const errorResponse = formatErrorResponse(error);
+    // On behalf of users, Graph calls made by the tool use the caller's token
+    return runAsCaller(getCallerFromAuthInfo(extra.authInfo), () =>
+      registry.call(name, args, { server, extra, documents, conversations, notifyResourceListChanged })
+    );
+  });
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(errorResponse, null, 2),
-          },
-        ],
-        isError: true,
-      };
+  // Tell the client when a config file edit changes which tools are enabled
+  const stopWatchingSettings = onSettingsChange((settings, previous) => {
+    if (!server.transport || JSON.stringify(settings.enabledTools) === JSON.stringify(previous.enabledTools)) {
+      return;
     }
+    server.sendToolListChanged().catch((err: unknown) => {
+      logError('Failed to send tool list changed notification', err);
+    });
   });
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    stopWatchingSettings();
+    documents.close();
+    previousOnClose?.();
+  };
 
   return server;
 }
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { ChatResponse, CopilotMessage, toChatAnswer } from './chat.js';
+
+function makeResponse(reply: Partial<CopilotMessage>): ChatResponse {
+  return {
+    id: '0d110e7e-2b7e-4270-a899-fd2af6fde333',
+    createdDateTime: '2025-01-01T00:00:00Z',
+    displayName: 'Test',
+    state: 'active',
+    turnCount: 2,
+    messages: [
+      { '@odata.type': '#microsoft.graph.copilotConversationRequestMessage', id: '1', text: 'Question?', createdDateTime: '' },
+      { '@odata.type': '#microsoft.graph.copilotConversationResponseMessage', id: '2', text: 'Old reply', createdDateTime: '' },
+      { '@odata.type': '#microsoft.graph.copilotConversationResponseMessage', id: '3', text: '', createdDateTime: '', ...reply },
+    ],
+  };
+}
+
+describe('toChatAnswer', () => {
+  it('returns only the latest reply', () => {
+    const answer = toChatAnswer(makeResponse({ text: 'Latest reply' }));
+    expect(answer).toEqual({
+      conversationId: '0d110e7e-2b7e-4270-a899-fd2af6fde333',
+      turnCount: 2,
+      reply: 'Latest reply',
+      citations: [],
+    });
+  });
+
+  it('numbers citations by URL and rewrites the reply markers', () => {
+    const answer = toChatAnswer(makeResponse({
+      text: 'Budget is up[^1^][^2^]. Plan is late[^3^]. Unknown source[^4^].',
+      attributions: [
+        { providerDisplayName: 'Budget.xlsx', seeMoreWebUrl: 'https://contoso/budget.xlsx' },
+        { providerDisplayName: 'Budget.xlsx', seeMoreWebUrl: 'https://contoso/budget.xlsx' },
+        { seeMoreWebUrl: 'https://contoso/plan.docx' },
+        { providerDisplayName: 'No link' },
+      ],
+    }));
+
+    expect(answer.reply).toBe('Budget is up[1]. Plan is late[2]. Unknown source.');
+    expect(answer.citations).toEqual([
+      { index: 1, title: 'Budget.xlsx', url: 'https://contoso/budget.xlsx' },
+      { index: 2, title: 'https://contoso/plan.docx', url: 'https://contoso/plan.docx' },
+    ]);
+  });
+
+  it('summarizes the sensitivity label and keeps rendered cards', () => {
+    const answer = toChatAnswer(makeResponse({
+      text: 'Secret',
+      sensitivityLabel: { displayName: 'Confidential', isEncrypted: true, tooltip: 'Internal use only' },
+      adaptiveCardsMarkdown: ['**Card**'],
+    }));
+    expect(answer.sensitivityLabel).toBe('Confidential (encrypted) - Internal use only');
+    expect(answer.adaptiveCards).toEqual(['**Card**']);
+  });
+
+  it('passes on a recreated conversation', () => {
+    const conversationRecreated = { previousConversationId: 'a', newConversationId: 'b', reason: 'expired' };
+    const answer = toChatAnswer({ ...makeResponse({ text: 'Hi' }), conversationRecreated });
+    expect(answer.conversationRecreated).toEqual(conversationRecreated);
+  });
+});
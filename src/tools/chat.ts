@@ -1,6 +1,16 @@
-import { callGraphApi } from '../utils/httpClient.js';
-import { getAuthManager, REQUIRED_SCOPES } from '../auth/identity.js';
-import { info } from '../utils/logger.js';
+import { callGraphApi, streamGraphApi } from '../utils/httpClient.js';
+import { APIError, ValidationError } from '../utils/errors.js';
+import { getAuthManager, toGraphScopes } from '../auth/identity.js';
+import { info, warn } from '../utils/logger.js';
+import { AdaptiveCard, renderAdaptiveCards } from '../utils/adaptiveCard.js';
+import { toJsonSchema } from '../utils/schema.js';
+import {
+  StoredConversation,
+  MAX_STORED_MESSAGES,
+  ConversationStoreData,
+  loadConversationStore,
+  saveConversationStore,
+} from './conversationStore.js';
 
 /**
  * Copilot Chat API Response Types
@@ -13,14 +23,36 @@ export interface CopilotConversation {
   turnCount: number;
 }
 
+export interface CopilotAttribution {
+  attributionType?: string;
+  providerDisplayName?: string;
+  attributionSource?: string;
+  seeMoreWebUrl?: string;
+  imageWebUrl?: string;
+  imageFavIcon?: string;
+  imageWidth?: number;
+  imageHeight?: number;
+}
+
+export interface CopilotSensitivityLabel {
+  sensitivityLabelId?: string;
+  displayName?: string;
+  tooltip?: string;
+  priority?: number;
+  color?: string;
+  isEncrypted?: boolean;
+}
+
 export interface CopilotMessage {
   '@odata.type': string;
   id: string;
   text: string;
   createdDateTime: string;
-  adaptiveCards?: any[];
-  attributions?: any[];
-  sensitivityLabel?: any;
+  adaptiveCards?: AdaptiveCard[];
+  /** Adaptive cards rendered as Markdown (added by this server) */
+  adaptiveCardsMarkdown?: string[];
+  attributions?: CopilotAttribution[];
+  sensitivityLabel?: CopilotSensitivityLabel | null;
 }
 
 export interface ChatResponse {
@@ -31,13 +63,338 @@ export interface ChatResponse {
   state: string;
   turnCount: number;
   messages: CopilotMessage[];
+  /** Set when the previous conversation had expired and a new one was created (added by this server) */
+  conversationRecreated?: {
+    previousConversationId: string;
+    newConversationId: string;
+    reason: string;
+  };
+}
+
+/**
+ * Numbered citation in a compact chat answer
+ */
+export interface ChatCitation {
+  index: number;
+  title: string;
+  url: string;
+}
+
+/**
+ * Compact chat output: only the latest Copilot reply with numbered citations
+ */
+export interface ChatAnswer {
+  conversationId: string;
+  turnCount: number;
+  /** Reply text, with citation markers rewritten as [n] */
+  reply: string;
+  citations: ChatCitation[];
+  /** Adaptive cards attached to the reply, rendered as Markdown */
+  adaptiveCards?: string[];
+  /** Summary of the reply's sensitivity label, if any */
+  sensitivityLabel?: string;
+  conversationRecreated?: ChatResponse['conversationRecreated'];
+}
+
+/**
+ * Chat output modes
+ * - answer: only the latest Copilot reply with numbered citations (default)
+ * - raw: the answer plus the full ChatResponse returned by Graph (in `raw`)
+ */
+export type ChatOutputMode = 'answer' | 'raw';
+
+export const CHAT_OUTPUT_MODES: readonly ChatOutputMode[] = ['answer', 'raw'];
+
+/**
+ * Graph permissions the Copilot Chat API needs to ground answers in the user's data
+ */
+export const CHAT_PERMISSIONS: readonly string[] = [
+  'Sites.Read.All',
+  'Mail.Read',
+  'People.Read.All',
+  'OnlineMeetingTranscript.Read.All',
+  'Chat.Read',
+  'ChannelMessage.Read.All',
+  'ExternalItem.Read.All',
+];
+
+/**
+ * Output schema of the chat tool, checked against ChatAnswer at compile time
+ */
+export const CHAT_ANSWER_SCHEMA = toJsonSchema<ChatAnswer>({
+  type: 'object',
+  properties: {
+    conversationId: { type: 'string' },
+    turnCount: { type: 'integer' },
+    reply: { type: 'string' },
+    citations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          index: { type: 'integer' },
+          title: { type: 'string' },
+          url: { type: 'string' },
+        },
+      },
+    },
+    adaptiveCards: { type: 'array', items: { type: 'string' }, optional: true },
+    sensitivityLabel: { type: 'string', optional: true },
+    conversationRecreated: {
+      type: 'object',
+      properties: {
+        previousConversationId: { type: 'string' },
+        newConversationId: { type: 'string' },
+        reason: { type: 'string' },
+      },
+      optional: true,
+    },
+  },
+});
+
+/**
+ * Partial Copilot reply, reported while the response is streamed
+ */
+export interface ChatProgress {
+  /** Reply text received so far */
+  text: string;
+  /** Text added since the previous update */
+  delta: string;
+}
+
+export type ChatProgressCallback = (progress: ChatProgress) => void;
+
+/**
+ * Extra context snippet sent with a chat message
+ */
+export interface ChatContextSnippet {
+  text: string;
+  description?: string;
+}
+
+/**
+ * Optional chat parameters
+ */
+export interface ChatOptions {
+  /** URLs of SharePoint/OneDrive files to ground the answer on */
+  files?: string[];
+  /** Extra context snippets for Copilot to consider */
+  additionalContext?: ChatContextSnippet[];
+  /** Enable or disable web grounding for this message (default: tenant setting) */
+  enableWebGrounding?: boolean;
+  /** Callback for partial reply text while Copilot is responding */
+  onProgress?: ChatProgressCallback;
+}
+
+/**
+ * Maximum number of files that can be attached to a chat message
+ */
+export const MAX_CHAT_FILES = 20;
+
+/**
+ * Maximum number of additional context snippets per chat message
+ */
+export const MAX_CHAT_CONTEXT_SNIPPETS = 10;
+
+/**
+ * Conversation created or used by this server
+ */
+export type ConversationRecord = Omit<StoredConversation, 'messages'>;
+
+/**
+ * Conversations of one account
+ */
+interface AccountConversations {
+  accountId: string;
+  conversations: Map<string, StoredConversation>;
+  /** Conversation made active last, resumed after a restart */
+  lastActiveConversationId: string | null;
+  /** Active conversation of the previous run, until a session resumes it */
+  resumableConversationId: string | null;
+}
+
+/**
+ * Module-level conversation registry, by account
+ * Shared by all server instances and loaded from the local conversation store
+ * on first use. Saved after every change, together with the conversation each
+ * account made active last, so the active conversation survives a server restart.
+ * In OnBehalfOf mode every caller only sees their own conversations.
+ */
+const accounts = new Map<string, AccountConversations>();
+let storeLoaded = false;
+
+/**
+ * Load persisted conversations on first use
+ */
+function ensureStoreLoaded(): void {
+  if (storeLoaded) {
+    return;
+  }
+  storeLoaded = true;
+
+  const data = loadConversationStore();
+  for (const [accountId, stored] of Object.entries(data.accounts)) {
+    if (!Array.isArray(stored?.conversations)) {
+      continue;
+    }
+    const account = createAccountConversations(accountId);
+    for (const conversation of stored.conversations) {
+      account.conversations.set(conversation.id, conversation);
+    }
+    if (stored.activeConversationId && account.conversations.has(stored.activeConversationId)) {
+      account.lastActiveConversationId = stored.activeConversationId;
+      account.resumableConversationId = stored.activeConversationId;
+    }
+  }
+}
+
+function createAccountConversations(accountId: string): AccountConversations {
+  const account: AccountConversations = {
+    accountId,
+    conversations: new Map(),
+    lastActiveConversationId: null,
+    resumableConversationId: null,
+  };
+  accounts.set(accountId, account);
+  return account;
+}
+
+/**
+ * Get the conversations of the signed-in account (in OnBehalfOf mode, the caller)
+ * @param accountId - Account to use instead of the signed-in one
+ */
+function getAccountConversations(accountId: string = getAuthManager().getAccountId()): AccountConversations {
+  ensureStoreLoaded();
+
+  return accounts.get(accountId) || createAccountConversations(accountId);
+}
+
+/**
+ * Persist the registry
+ */
+function persistConversations(): void {
+  const data: ConversationStoreData = { version: 2, accounts: {} };
+  for (const account of accounts.values()) {
+    if (account.conversations.size > 0) {
+      data.accounts[account.accountId] = {
+        activeConversationId: account.lastActiveConversationId,
+        conversations: [...account.conversations.values()],
+      };
+    }
+  }
+  saveConversationStore(data);
+}
+
+/**
+ * Active conversation of one MCP server instance
+ * One per server, so HTTP sessions don't continue, switch or reset each other's
+ * active conversation. The conversation that was active when the server last
+ * stopped is resumed by the first session of the account that needs an active
+ * conversation.
+ */
+export class ConversationSession {
+  /** Active conversation by account ID; an account is missing until its resumable conversation was checked */
+  private activeConversationIds = new Map<string, string | null>();
+
+  /**
+   * Get the active conversation ID of the signed-in account, or null if there
+   * is none (or it has been forgotten)
+   */
+  getActiveConversationId(): string | null {
+    const account = getAccountConversations();
+
+    if (!this.activeConversationIds.has(account.accountId)) {
+      const resumable = account.resumableConversationId;
+      account.resumableConversationId = null;
+      if (resumable && account.conversations.has(resumable)) {
+        info('Resuming active conversation from previous session', { conversationId: resumable });
+        this.activeConversationIds.set(account.accountId, resumable);
+      } else {
+        this.activeConversationIds.set(account.accountId, null);
+      }
+    }
+
+    const conversationId = this.activeConversationIds.get(account.accountId) ?? null;
+    if (conversationId && !account.conversations.has(conversationId)) {
+      this.activeConversationIds.set(account.accountId, null);
+      return null;
+    }
+    return conversationId;
+  }
+
+  /**
+   * Make a known conversation of the signed-in account the active one (or none),
+   * and save it as the one to resume
+   */
+  setActiveConversationId(conversationId: string | null): void {
+    const account = getAccountConversations();
+
+    const previous = this.getActiveConversationId();
+    this.activeConversationIds.set(account.accountId, conversationId);
+    if (conversationId || account.lastActiveConversationId === previous) {
+      account.lastActiveConversationId = conversationId;
+    }
+    persistConversations();
+  }
+}
+
+function toRecord({ messages, ...record }: StoredConversation): ConversationRecord {
+  return record;
+}
+
+/**
+ * Add a conversation to an account's registry
+ */
+function registerConversation(
+  account: AccountConversations,
+  conversation: CopilotConversation,
+  displayName?: string
+): StoredConversation {
+  const now = new Date().toISOString();
+  const record: StoredConversation = {
+    id: conversation.id,
+    displayName: displayName || conversation.displayName || '',
+    createdDateTime: conversation.createdDateTime || now,
+    turnCount: conversation.turnCount || 0,
+    lastUsedDateTime: now,
+    messages: [],
+  };
+  account.conversations.set(record.id, record);
+  return record;
 }
 
 /**
- * Module-level conversation ID cache
- * Reuses the same conversation within a session
+ * Update a conversation record after a chat turn
  */
-let cachedConversationId: string | null = null;
+function recordChatTurn(
+  account: AccountConversations,
+  conversationId: string,
+  message: string,
+  response: ChatResponse
+): void {
+  const record = account.conversations.get(conversationId) || registerConversation(account, {
+    id: conversationId,
+    createdDateTime: response.createdDateTime,
+    displayName: response.displayName,
+    status: response.state,
+    turnCount: response.turnCount,
+  });
+
+  const now = new Date().toISOString();
+  record.turnCount = response.turnCount ?? record.turnCount + 1;
+  record.lastUsedDateTime = now;
+  if (!record.displayName && response.displayName) {
+    record.displayName = response.displayName;
+  }
+
+  record.messages.push(
+    { role: 'user', text: message, createdDateTime: now },
+    { role: 'copilot', text: getResponseText(response.messages), createdDateTime: now }
+  );
+  record.messages = record.messages.slice(-MAX_STORED_MESSAGES);
+
+  persistConversations();
+}
 
 /**
  * Create a new Copilot conversation
@@ -60,24 +417,113 @@ async function createConversation(accessToken: string): Promise<CopilotConversat
   return result;
 }
 
+/**
+ * Get the text of the latest Copilot response message in a conversation snapshot
+ */
+function getResponseText(messages: CopilotMessage[] | undefined): string {
+  return getLatestResponseMessage(messages)?.text || '';
+}
+
+/**
+ * Get the latest Copilot response message in a conversation snapshot
+ */
+function getLatestResponseMessage(messages: CopilotMessage[] | undefined): CopilotMessage | undefined {
+  const responses = (messages || []).filter(m => m['@odata.type']?.includes('ResponseMessage'));
+  return responses[responses.length - 1];
+}
+
+/**
+ * Summarize a sensitivity label (e.g. 'Confidential (encrypted) - Internal use only')
+ */
+function summarizeSensitivityLabel(label: CopilotSensitivityLabel | null | undefined): string | undefined {
+  if (!label || (!label.displayName && !label.sensitivityLabelId)) {
+    return undefined;
+  }
+
+  const name = label.displayName || label.sensitivityLabelId;
+  const encrypted = label.isEncrypted ? ' (encrypted)' : '';
+  const tooltip = label.tooltip ? ` - ${label.tooltip}` : '';
+  return `${name}${encrypted}${tooltip}`;
+}
+
+/**
+ * Convert a chat response into the compact answer-only format
+ * Attributions become numbered citations, deduplicated by URL, and the
+ * reply's [^n^] markers are renumbered to match.
+ */
+export function toChatAnswer(response: ChatResponse): ChatAnswer {
+  const latest = getLatestResponseMessage(response.messages);
+  const citations: ChatCitation[] = [];
+  const citationByUrl = new Map<string, ChatCitation>();
+
+  // Map each attribution (1-based, as used by the reply markers) to a citation number
+  const attributionToCitation = new Map<number, number>();
+  (latest?.attributions || []).forEach((attribution, position) => {
+    const url = attribution.seeMoreWebUrl;
+    if (!url) {
+      return;
+    }
+
+    let citation = citationByUrl.get(url);
+    if (!citation) {
+      citation = {
+        index: citations.length + 1,
+        title: attribution.providerDisplayName || url,
+        url,
+      };
+      citations.push(citation);
+      citationByUrl.set(url, citation);
+    }
+    attributionToCitation.set(position + 1, citation.index);
+  });
+
+  const reply = (latest?.text || '').replace(/\[\^(\d+)\^\]/g, (marker, number) => {
+    const index = attributionToCitation.get(Number(number));
+    return index ? `[${index}]` : '';
+  }).replace(/(\[\d+\])\1+/g, '$1'); // Collapse repeated markers that now point to the same citation
+
+  const sensitivityLabel = summarizeSensitivityLabel(latest?.sensitivityLabel);
+
+  return {
+    conversationId: response.id,
+    turnCount: response.turnCount,
+    reply,
+    citations,
+    ...(latest?.adaptiveCardsMarkdown?.length ? { adaptiveCards: latest.adaptiveCardsMarkdown } : {}),
+    ...(sensitivityLabel ? { sensitivityLabel } : {}),
+    ...(response.conversationRecreated ? { conversationRecreated: response.conversationRecreated } : {}),
+  };
+}
+
 /**
  * Send a chat message to a Copilot conversation
+ * Uses the streaming chat endpoint (server-sent events). Each event carries a
+ * snapshot of the conversation; partial reply text is reported via onProgress
+ * and the last snapshot is returned as the final response.
+ *
  * @param conversationId - The conversation ID to send the message to
  * @param message - The message text to send
  * @param timeZone - User's timezone in IANA format (e.g., 'America/New_York', 'Asia/Shanghai')
  * @param accessToken - Access token for authentication
+ * @param options - Grounding options and optional progress callback
  * @returns Chat response with conversation history
  */
 async function sendChatMessage(
   conversationId: string,
   message: string,
   timeZone: string,
-  accessToken: string
+  accessToken: string,
+  options: ChatOptions = {}
 ): Promise<ChatResponse> {
+  const { files, additionalContext, enableWebGrounding, onProgress } = options;
+
   info('Sending chat message', {
     conversationId,
     messageLength: message.length,
     timeZone,
+    fileCount: files?.length || 0,
+    contextSnippetCount: additionalContext?.length || 0,
+    enableWebGrounding,
   });
 
   const requestBody: any = {
@@ -89,35 +535,76 @@ async function sendChatMessage(
     },
   };
 
-  const result = await callGraphApi(
-    `/beta/copilot/conversations/${conversationId}/chat`,
-    'POST',
+  if (additionalContext && additionalContext.length > 0) {
+    requestBody.additionalContext = additionalContext;
+  }
+
+  if ((files && files.length > 0) || enableWebGrounding !== undefined) {
+    requestBody.contextualResources = {
+      ...(files && files.length > 0 ? { files: files.map(uri => ({ uri })) } : {}),
+      ...(enableWebGrounding !== undefined ? { webContext: { isWebEnabled: enableWebGrounding } } : {}),
+    };
+  }
+
+  let result: ChatResponse | null = null;
+  let replyText = '';
+
+  await streamGraphApi(
+    `/beta/copilot/conversations/${encodeURIComponent(conversationId)}/chatOverStream`,
     requestBody,
-    accessToken
+    accessToken,
+    (snapshot: Partial<ChatResponse>) => {
+      result = { ...(result || {}), ...snapshot } as ChatResponse;
+
+      const text = getResponseText(snapshot.messages);
+      if (onProgress && text && text !== replyText) {
+        // Snapshots normally carry the full reply so far; treat anything else as a new segment
+        const delta = text.startsWith(replyText) ? text.slice(replyText.length) : text;
+        replyText = text;
+        onProgress({ text, delta });
+      }
+    }
   );
 
+  if (!result) {
+    throw new APIError('Copilot chat stream ended without a response', undefined, { conversationId });
+  }
+  const response: ChatResponse = result;
+
+  // Most MCP clients cannot display adaptive cards, so include a Markdown rendering
+  for (const responseMessage of response.messages || []) {
+    const markdown = renderAdaptiveCards(responseMessage.adaptiveCards);
+    if (markdown.length > 0) {
+      responseMessage.adaptiveCardsMarkdown = markdown;
+    }
+  }
+
   info('Chat message sent successfully', {
-    conversationId: result.id,
-    turnCount: result.turnCount,
-    messageCount: result.messages?.length || 0,
+    conversationId: response.id,
+    turnCount: response.turnCount,
+    messageCount: response.messages?.length || 0,
   });
 
-  return result;
+  return response;
 }
 
 /**
  * Call Microsoft 365 Copilot Chat API
  * Manages conversation lifecycle and sends chat messages
  *
+ * @param session - Server instance whose active conversation is used when no conversationId is given
  * @param message - The message/question to send to Copilot
  * @param conversationId - Optional conversation ID to continue an existing conversation
  * @param timeZone - User's timezone in IANA format (e.g., 'America/New_York', 'Asia/Shanghai')
+ * @param options - Optional grounding files, context snippets, web grounding flag and progress callback
  * @returns Chat response with conversation messages
  */
 export async function copilotChat(
+  session: ConversationSession,
   message: string,
   conversationId: string | undefined,
-  timeZone: string
+  timeZone: string,
+  options: ChatOptions = {}
 ): Promise<ChatResponse> {
   info('Calling Copilot Chat API', {
     messageLength: message.length,
@@ -127,9 +614,11 @@ export async function copilotChat(
 
   // Get access token
   const authManager = getAuthManager();
-  const accessToken = await authManager.getAccessToken(REQUIRED_SCOPES);
+  const accessToken = await authManager.getAccessToken(toGraphScopes(CHAT_PERMISSIONS));
+  const account = getAccountConversations();
 
   // Determine which conversation ID to use
+  const cachedConversationId = session.getActiveConversationId();
   let activeConversationId: string;
 
   if (conversationId) {
@@ -143,35 +632,161 @@ export async function copilotChat(
   } else {
     // Create new conversation and cache the ID
     const conversation = await createConversation(accessToken);
-    activeConversationId = conversation.id;
-    cachedConversationId = conversation.id;
-    info('Created and cached new conversation ID', { conversationId: cachedConversationId });
+    activeConversationId = registerConversation(account, conversation).id;
+    session.setActiveConversationId(activeConversationId);
+    info('Created and cached new conversation ID', { conversationId: activeConversationId });
   }
 
-  // Send chat message
-  const result = await sendChatMessage(
-    activeConversationId,
-    message,
-    timeZone,
-    accessToken
-  );
+  let result: ChatResponse;
+  try {
+    // Send chat message
+    result = await sendChatMessage(
+      activeConversationId,
+      message,
+      timeZone,
+      accessToken,
+      options
+    );
+  } catch (error) {
+    // Conversations known to this server may have expired on the Graph side
+    const previous = account.conversations.get(activeConversationId);
+    if (!(error instanceof APIError) || error.statusCode !== 404 || !previous) {
+      throw error;
+    }
+
+    warn('Conversation no longer exists - creating a new one', { conversationId: activeConversationId });
+    const wasActive = session.getActiveConversationId() === activeConversationId;
+    account.conversations.delete(activeConversationId);
+
+    const conversation = await createConversation(accessToken);
+    const replacement = registerConversation(account, conversation, previous.displayName);
+    replacement.messages = previous.messages;
+    if (wasActive) {
+      session.setActiveConversationId(replacement.id);
+    } else {
+      persistConversations();
+    }
+
+    result = await sendChatMessage(
+      replacement.id,
+      message,
+      timeZone,
+      accessToken,
+      options
+    );
+    result.conversationRecreated = {
+      previousConversationId: activeConversationId,
+      newConversationId: replacement.id,
+      reason: 'The previous conversation was not found (it may have expired). Earlier context is not available to Copilot.',
+    };
+    activeConversationId = replacement.id;
+  }
+
+  recordChatTurn(account, activeConversationId, message, result);
 
   return result;
 }
 
 /**
- * Clear the cached conversation ID
+ * Start a new Copilot conversation and make it the active one
+ * @param session - Server instance whose active conversation it becomes
+ * @param displayName - Optional friendly name, used to switch back to the conversation
+ * @returns The new conversation record
+ */
+export async function startNewConversation(
+  session: ConversationSession,
+  displayName?: string
+): Promise<ConversationRecord> {
+  const authManager = getAuthManager();
+  const accessToken = await authManager.getAccessToken(toGraphScopes(CHAT_PERMISSIONS));
+  const account = getAccountConversations();
+
+  if (displayName && findConversationByName(account, displayName)) {
+    throw new ValidationError(`A conversation named '${displayName}' already exists`, {
+      paramName: 'name',
+      name: displayName,
+    });
+  }
+
+  const conversation = await createConversation(accessToken);
+  const record = registerConversation(account, conversation, displayName);
+  session.setActiveConversationId(record.id);
+  info('Started new conversation', { conversationId: record.id, displayName: record.displayName });
+
+  return toRecord(record);
+}
+
+function findConversationByName(account: AccountConversations, displayName: string): StoredConversation | undefined {
+  const name = displayName.toLowerCase();
+  return [...account.conversations.values()].find(c => c.displayName.toLowerCase() === name);
+}
+
+/**
+ * List conversations of the signed-in account created or used by this server, most recently used first
+ * @param session - Server instance whose active conversation is flagged
+ */
+export function listConversations(session: ConversationSession): (ConversationRecord & { active: boolean })[] {
+  const account = getAccountConversations();
+  const activeConversationId = session.getActiveConversationId();
+
+  return [...account.conversations.values()]
+    .sort((a, b) => b.lastUsedDateTime.localeCompare(a.lastUsedDateTime))
+    .map(record => ({ ...toRecord(record), active: record.id === activeConversationId }));
+}
+
+/**
+ * Make a known conversation of the signed-in account the active one
+ * @param session - Server instance whose active conversation changes
+ * @param idOrName - Conversation ID or friendly name (case-insensitive)
+ * @returns The now active conversation record
+ */
+export function switchConversation(session: ConversationSession, idOrName: string): ConversationRecord {
+  const account = getAccountConversations();
+
+  const record = account.conversations.get(idOrName) || findConversationByName(account, idOrName);
+
+  if (!record) {
+    throw new ValidationError(`No conversation found with ID or name '${idOrName}'`, {
+      paramName: 'conversation',
+      knownConversations: account.conversations.size,
+    });
+  }
+
+  session.setActiveConversationId(record.id);
+  info('Switched active conversation', { conversationId: record.id, displayName: record.displayName });
+
+  return toRecord(record);
+}
+
+/**
+ * Reset the active conversation of a server instance
  * Useful for starting a fresh conversation
+ * @param session - Server instance whose active conversation is reset
+ * @param forgetAll - Also forget all conversations of the signed-in account (in every session)
  */
-export function clearConversationCache(): void {
-  info('Clearing conversation cache');
-  cachedConversationId = null;
+export function resetConversation(session: ConversationSession, forgetAll: boolean = false): void {
+  info('Resetting active conversation', { forgetAll });
+  session.setActiveConversationId(null);
+  if (forgetAll) {
+    clearConversationCache(true);
+  }
 }
 
 /**
- * Get the current cached conversation ID
- * @returns The cached conversation ID or null if none exists
+ * Clear the conversation of the signed-in account that is resumed after a restart
+ * Conversations of other accounts (in OnBehalfOf mode, other callers) are kept.
+ * Active conversations of running sessions that are forgotten are reset too.
+ * @param forgetAll - Also forget all conversations of the signed-in account
+ * @param accountId - Account to clear instead of the signed-in one (e.g. one whose sign-in record is already deleted)
  */
-export function getCachedConversationId(): string | null {
-  return cachedConversationId;
+export function clearConversationCache(forgetAll: boolean = false, accountId?: string): void {
+  const account = getAccountConversations(accountId);
+
+  info('Clearing conversation cache', { forgetAll });
+  account.lastActiveConversationId = null;
+  account.resumableConversationId = null;
+  if (forgetAll) {
+    accounts.delete(account.accountId);
+  }
+  persistConversations();
 }
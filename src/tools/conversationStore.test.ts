@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConversationStoreData, getConversationStorePath, loadConversationStore, saveConversationStore } from './conversationStore.js';
+
+const store: ConversationStoreData = {
+  version: 2,
+  accounts: {
+    'user.tenant': {
+      activeConversationId: 'c1',
+      conversations: [{
+        id: 'c1',
+        displayName: 'Planning',
+        createdDateTime: '2025-01-01T00:00:00Z',
+        turnCount: 1,
+        lastUsedDateTime: '2025-01-01T00:00:00Z',
+        messages: [{ role: 'user', text: 'Hi', createdDateTime: '2025-01-01T00:00:00Z' }],
+      }],
+    },
+  },
+};
+
+describe('conversation store', () => {
+  let configDir: string;
+  const previousConfigDir = process.env.M365_CONFIG_DIR;
+
+  beforeEach(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'm365-store-'));
+    process.env.M365_CONFIG_DIR = configDir;
+  });
+
+  afterEach(() => {
+    if (previousConfigDir === undefined) {
+      delete process.env.M365_CONFIG_DIR;
+    } else {
+      process.env.M365_CONFIG_DIR = previousConfigDir;
+    }
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('starts empty when there is no file', () => {
+    expect(loadConversationStore()).toEqual({ version: 2, accounts: {} });
+  });
+
+  it('saves and loads conversations by account', () => {
+    saveConversationStore(store);
+    expect(loadConversationStore()).toEqual(store);
+    expect(fs.existsSync(`${getConversationStorePath()}.tmp`)).toBe(false);
+  });
+
+  it('ignores a version 1 store, which has no account information', () => {
+    fs.writeFileSync(getConversationStorePath(), JSON.stringify({
+      version: 1,
+      activeConversationId: 'c1',
+      conversations: store.accounts['user.tenant'].conversations,
+    }));
+    expect(loadConversationStore()).toEqual({ version: 2, accounts: {} });
+  });
+
+  it('ignores unreadable or unexpected files', () => {
+    fs.writeFileSync(getConversationStorePath(), '{ not json');
+    expect(loadConversationStore()).toEqual({ version: 2, accounts: {} });
+
+    fs.writeFileSync(getConversationStorePath(), JSON.stringify({ version: 2, accounts: null }));
+    expect(loadConversationStore()).toEqual({ version: 2, accounts: {} });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Local store for Copilot conversations
+ * Keeps conversation IDs, names, turn counts and the last exchanged messages
+ * of each account, so the chat tool can resume the active conversation after
+ * a restart.
+ */
+
+import * as fs from 'fs';
+import { getConfigFilePath } from '../utils/paths.js';
+import { info, error as logError } from '../utils/logger.js';
+
+/**
+ * Message exchanged in a conversation
+ */
+export interface StoredMessage {
+  role: 'user' | 'copilot';
+  text: string;
+  createdDateTime: string;
+}
+
+/**
+ * Conversation as persisted on disk
+ */
+export interface StoredConversation {
+  id: string;
+  displayName: string;
+  createdDateTime: string;
+  turnCount: number;
+  lastUsedDateTime: string;
+  messages: StoredMessage[];
+}
+
+/**
+ * Conversations of one account
+ */
+export interface AccountConversationData {
+  activeConversationId: string | null;
+  conversations: StoredConversation[];
+}
+
+export interface ConversationStoreData {
+  version: 2;
+  /** Conversations by account ID (see AuthenticationManager.getAccountId) */
+  accounts: Record<string, AccountConversationData>;
+}
+
+/**
+ * Number of most recent messages kept per conversation
+ */
+export const MAX_STORED_MESSAGES = 20;
+
+const STORE_FILE_NAME = 'conversations.json';
+
+/**
+ * Get the path to the conversation store file
+ */
+export function getConversationStorePath(): string {
+  return getConfigFilePath(STORE_FILE_NAME);
+}
+
+/**
+ * Load the conversation store from disk
+ * Returns an empty store if the file is missing or unreadable
+ */
+export function loadConversationStore(): ConversationStoreData {
+  const empty: ConversationStoreData = { version: 2, accounts: {} };
+
+  try {
+    const storePath = getConversationStorePath();
+    if (!fs.existsSync(storePath)) {
+      return empty;
+    }
+
+    const data = JSON.parse(fs.readFileSync(storePath, 'utf-8'));
+    if (data?.version === 1) {
+      // Earlier versions did not record which account a conversation belongs to
+      info('Ignoring conversation store without account information', { path: storePath });
+      return empty;
+    }
+    if (data?.version !== 2 || typeof data.accounts !== 'object' || data.accounts === null) {
+      logError('Ignoring conversation store with unexpected format', undefined, { path: storePath });
+      return empty;
+    }
+
+    info('Loaded conversation store from disk', {
+      accounts: Object.keys(data.accounts).length,
+    });
+    return data;
+  } catch (error) {
+    logError('Failed to load conversation store', error);
+    return empty;
+  }
+}
+
+/**
+ * Save the conversation store to disk
+ * The file contains message text, so it is only readable by the current user
+ */
+export function saveConversationStore(data: ConversationStoreData): void {
+  try {
+    const storePath = getConversationStorePath();
+    const tempPath = `${storePath}.tmp`;
+
+    // Write to a temporary file first so a crash never leaves a truncated store
+    fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    fs.renameSync(tempPath, storePath);
+  } catch (error) {
+    // Non-fatal: the conversation still works, it just won't survive a restart
+    logError('Failed to save conversation store', error);
+  }
+}
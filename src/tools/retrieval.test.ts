@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { RetrievalHit, RetrievalResponse, trimRetrievalResponse } from './retrieval.js';
+
+function makeHit(name: string, scores: number[], extractLength = 400): RetrievalHit {
+  return {
+    webUrl: `https://contoso.sharepoint.com/${name}.docx`,
+    resourceType: 'listItem',
+    dataSource: 'sharePoint',
+    resourceMetadata: { title: name },
+    extracts: scores.map(relevanceScore => ({
+      text: `Extract from ${name} scored ${relevanceScore}. `.repeat(40).slice(0, extractLength),
+      relevanceScore,
+    })),
+  };
+}
+
+const fitsWithin = (budget: number) => (value: unknown) => JSON.stringify(value).length <= budget;
+
+describe('trimRetrievalResponse', () => {
+  it('keeps everything when the response fits', () => {
+    const response: RetrievalResponse = { retrievalHits: [makeHit('a', [0.9, 0.5]), makeHit('b', [0.7])] };
+    const before = JSON.stringify(response);
+    const { value, omitted } = trimRetrievalResponse(response, () => true);
+    expect(JSON.stringify(value)).toBe(before);
+    expect(omitted).toEqual({ extractsOmitted: 0 });
+  });
+
+  it('keeps the most relevant extracts across hits', () => {
+    const response: RetrievalResponse = {
+      retrievalHits: [makeHit('a', [0.2, 0.1]), makeHit('b', [0.9, 0.8])],
+    };
+    // Room for the documents and roughly two whole extracts
+    const budget = JSON.stringify({ retrievalHits: response.retrievalHits.map(h => ({ ...h, extracts: [] })) }).length + 900;
+    const { value, omitted } = trimRetrievalResponse(response, fitsWithin(budget));
+
+    expect(JSON.stringify(value).length).toBeLessThanOrEqual(budget);
+    expect(value.retrievalHits.map(h => h.webUrl)).toEqual(response.retrievalHits.map(h => h.webUrl));
+    expect(value.retrievalHits[1].extracts.map(e => e.relevanceScore)).toEqual([0.9, 0.8]);
+    expect(value.retrievalHits[0].extracts).toEqual([]);
+    expect(omitted.hitsWithoutExtracts).toBe(1);
+    expect(omitted.extractsOmitted).toBe(2);
+  });
+
+  it('cuts the extract that crosses the budget at a sentence boundary', () => {
+    const response: RetrievalResponse = { retrievalHits: [makeHit('a', [0.9], 2000)] };
+    const budget = JSON.stringify({ retrievalHits: [{ ...response.retrievalHits[0], extracts: [] }] }).length + 500;
+    const { value, omitted } = trimRetrievalResponse(response, fitsWithin(budget));
+
+    const [extract] = value.retrievalHits[0].extracts;
+    expect(extract.text).toMatch(/0\.9\.…$/);
+    expect(extract.text.length).toBeGreaterThanOrEqual(80);
+    expect(omitted).toEqual({ extractsOmitted: 0, extractsShortened: 1 });
+  });
+
+  it('drops the least relevant documents when even their metadata does not fit', () => {
+    const response: RetrievalResponse = { retrievalHits: [makeHit('a', [0.9]), makeHit('b', [0.8]), makeHit('c', [0.7])] };
+    const budget = JSON.stringify({ retrievalHits: [{ ...response.retrievalHits[0], extracts: [] }] }).length + 10;
+    const { value, omitted } = trimRetrievalResponse(response, fitsWithin(budget));
+
+    expect(value.retrievalHits.map(h => h.resourceMetadata.title)).toEqual(['a']);
+    expect(omitted.hitsOmitted).toBe(2);
+  });
+});
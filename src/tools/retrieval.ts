@@ -1,10 +1,14 @@
 import { callGraphApi } from '../utils/httpClient.js';
-import { getAuthManager, REQUIRED_SCOPES } from '../auth/identity.js';
+import { getAuthManager, toGraphScopes } from '../auth/identity.js';
 import { info } from '../utils/logger.js';
+import { Trimmer, cutAtSentence } from '../utils/output.js';
+import { toJsonSchema } from '../utils/schema.js';
 
 /**
  * Copilot Retrieval API Response Types
  */
+export type RetrievalDataSource = 'sharePoint' | 'oneDriveBusiness' | 'externalItem';
+
 export interface RetrievalExtract {
   text: string;
   relevanceScore: number;
@@ -14,6 +18,8 @@ export interface RetrievalHit {
   webUrl: string;
   extracts: RetrievalExtract[];
   resourceType: string;
+  /** Data source the hit came from (added by this server) */
+  dataSource: RetrievalDataSource;
   resourceMetadata: {
     title?: string;
     author?: string;
@@ -25,55 +31,176 @@ export interface RetrievalResponse {
   retrievalHits: RetrievalHit[];
 }
 
+/**
+ * Optional Retrieval API parameters
+ */
+export interface RetrievalOptions {
+  /** KQL filter expression (e.g. 'FileExtension:"docx" AND Author:"Megan Bowen"') */
+  filterExpression?: string;
+  /** Maximum number of results per data source (1-25) */
+  maximumNumberOfResults?: number;
+  /** Metadata fields to return for each hit */
+  resourceMetadata?: string[];
+  /** Data sources to query in parallel (default: sharePoint and oneDriveBusiness) */
+  dataSources?: RetrievalDataSource[];
+  /** Copilot connector connection IDs to query when externalItem is selected (default: all) */
+  connectionIds?: string[];
+}
+
+/**
+ * Data sources supported by the Retrieval API
+ */
+export const RETRIEVAL_DATA_SOURCES: readonly RetrievalDataSource[] = ['sharePoint', 'oneDriveBusiness', 'externalItem'];
+
+/**
+ * Data sources queried when none are specified
+ */
+export const DEFAULT_RETRIEVAL_DATA_SOURCES: readonly RetrievalDataSource[] = ['sharePoint', 'oneDriveBusiness'];
+
+/**
+ * Graph permissions the Retrieval API needs for SharePoint and OneDrive
+ */
+export const RETRIEVAL_PERMISSIONS: readonly string[] = ['Files.Read.All', 'Sites.Read.All'];
+
+/**
+ * Graph permissions needed to query the given data sources
+ * Copilot connector content additionally needs ExternalItem.Read.All, which is
+ * only asked for once a call includes externalItem.
+ */
+export function getRetrievalPermissions(dataSources: readonly RetrievalDataSource[]): string[] {
+  return dataSources.includes('externalItem')
+    ? [...RETRIEVAL_PERMISSIONS, 'ExternalItem.Read.All']
+    : [...RETRIEVAL_PERMISSIONS];
+}
+
+/**
+ * Output schema of the retrieval tool, checked against RetrievalResponse at compile time
+ */
+export const RETRIEVAL_RESPONSE_SCHEMA = toJsonSchema<RetrievalResponse>({
+  type: 'object',
+  properties: {
+    retrievalHits: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          webUrl: { type: 'string' },
+          extracts: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                text: { type: 'string' },
+                relevanceScore: { type: 'number' },
+              },
+            },
+          },
+          resourceType: { type: 'string' },
+          dataSource: { type: 'string', enum: RETRIEVAL_DATA_SOURCES },
+          resourceMetadata: {
+            type: 'object',
+            properties: {
+              title: { type: 'string', optional: true },
+              author: { type: 'string', optional: true },
+            },
+            additionalProperties: true,
+          },
+        },
+      },
+    },
+  },
+});
+
+/**
+ * Properties supported in Retrieval API KQL filter expressions
+ */
+export const RETRIEVAL_FILTER_PROPERTIES = [
+  'Author',
+  'FileExtension',
+  'Filename',
+  'FileType',
+  'InformationProtectionLabelId',
+  'LastModifiedTime',
+  'ModifiedBy',
+  'Path',
+  'SiteID',
+  'Title',
+] as const;
+
+/**
+ * Maximum number of results the Retrieval API returns per request
+ */
+export const MAX_RETRIEVAL_RESULTS = 25;
+
+const DEFAULT_MAXIMUM_NUMBER_OF_RESULTS = 5;
+const DEFAULT_RESOURCE_METADATA = ['title', 'author'];
+
 /**
  * Call Microsoft 365 Copilot Retrieval API
- * Retrieves relevant text extracts from SharePoint and OneDrive in parallel
+ * Retrieves relevant text extracts from SharePoint, OneDrive and Copilot
+ * connectors in parallel
  *
  * @param queryString - Natural language query from the user
+ * @param options - Optional KQL filter, result count, metadata fields and data sources
  * @returns Retrieval response with relevant text extracts and metadata
  */
 export async function copilotRetrieval(
-  queryString: string
+  queryString: string,
+  options: RetrievalOptions = {}
 ): Promise<RetrievalResponse> {
   info('Calling Copilot Retrieval API', {
     queryLength: queryString.length,
+    hasFilterExpression: !!options.filterExpression,
+    maximumNumberOfResults: options.maximumNumberOfResults,
+    dataSources: options.dataSources,
   });
 
+  const dataSources = options.dataSources || DEFAULT_RETRIEVAL_DATA_SOURCES;
+
   // Get access token
   const authManager = getAuthManager();
-  const accessToken = await authManager.getAccessToken(REQUIRED_SCOPES);
-
-  // Parallel calls to SharePoint and OneDrive
-  const [sharePointResult, oneDriveResult] = await Promise.all([
-    callGraphApi(
-      '/beta/copilot/retrieval',
-      'POST',
-      {
-        queryString,
-        dataSource: 'sharePoint',
-        resourceMetadata: ['title', 'author'],
-        maximumNumberOfResults: 5,
-      },
-      accessToken
-    ),
-    callGraphApi(
-      '/beta/copilot/retrieval',
-      'POST',
-      {
-        queryString,
-        dataSource: 'oneDriveBusiness',
-        resourceMetadata: ['title', 'author'],
-        maximumNumberOfResults: 5,
-      },
-      accessToken
-    ),
-  ]);
+  const accessToken = await authManager.getAccessToken(toGraphScopes(getRetrievalPermissions(dataSources)));
+
+  const requestBody = {
+    queryString,
+    ...(options.filterExpression ? { filterExpression: options.filterExpression } : {}),
+    resourceMetadata: options.resourceMetadata || DEFAULT_RESOURCE_METADATA,
+    maximumNumberOfResults: options.maximumNumberOfResults || DEFAULT_MAXIMUM_NUMBER_OF_RESULTS,
+  };
+
+  // Parallel calls to each data source
+  const results = await Promise.all(
+    dataSources.map(dataSource =>
+      callGraphApi(
+        '/beta/copilot/retrieval',
+        'POST',
+        {
+          ...requestBody,
+          dataSource,
+          ...(dataSource === 'externalItem' && options.connectionIds
+            ? {
+                dataSourceConfiguration: {
+                  externalItem: {
+                    connections: options.connectionIds.map(connectionId => ({ connectionId })),
+                  },
+                },
+              }
+            : {}),
+        },
+        accessToken,
+        // Retrieval only reads, so it is safe to send again
+        { idempotent: true }
+      )
+    )
+  );
 
-  // Combine results from both sources
-  const combinedHits = [
-    ...sharePointResult.retrievalHits,
-    ...oneDriveResult.retrievalHits,
-  ];
+  // Combine results from all sources, tagging each hit with its source
+  const combinedHits: RetrievalHit[] = results.flatMap((result, index) =>
+    (result.retrievalHits || []).map((hit: Omit<RetrievalHit, 'dataSource'>) => ({
+      ...hit,
+      dataSource: dataSources[index],
+    }))
+  );
 
   // Sort by highest relevance score in each hit
   combinedHits.sort((a, b) => {
@@ -88,9 +215,99 @@ export async function copilotRetrieval(
 
   info('Copilot Retrieval API calls succeeded', {
     totalHits: combinedHits.length,
-    sharePointHits: sharePointResult.retrievalHits.length,
-    oneDriveHits: oneDriveResult.retrievalHits.length,
+    hitsBySource: Object.fromEntries(
+      dataSources.map((dataSource, index) => [dataSource, results[index].retrievalHits?.length || 0])
+    ),
   });
 
   return { retrievalHits: combinedHits };
 }
+
+/**
+ * Trim a retrieval response to an output budget
+ * Extracts are kept in order of relevanceScore across all hits; the first
+ * extract that crosses the budget is cut at a sentence boundary, and lower-ranked
+ * extracts are still added wherever they fit whole. Hits whose extracts were all
+ * omitted keep their URL and metadata while there is room (counted as
+ * hitsWithoutExtracts), so the documents can still be opened or read as resources.
+ */
+export const trimRetrievalResponse: Trimmer<RetrievalResponse> = (response, fits) => {
+  const hits = response.retrievalHits || [];
+  const ranked = hits
+    .flatMap((hit, hitIndex) => hit.extracts.map(extract => ({ hitIndex, extract })))
+    .sort((a, b) => b.extract.relevanceScore - a.extract.relevanceScore);
+  const totalExtracts = ranked.length;
+
+  // Start from the documents alone, dropping the least relevant ones if even that is too large
+  const kept: RetrievalHit[] = hits.map(hit => ({ ...hit, extracts: [] }));
+  let trimmed: RetrievalResponse = { ...response, retrievalHits: kept };
+  let hitsOmitted = 0;
+  while (kept.length > 0 && !fits(trimmed)) {
+    kept.pop();
+    hitsOmitted++;
+  }
+
+  let extractsKept = 0;
+  let extractsShortened = 0;
+  let budgetReached = false;
+  for (const { hitIndex, extract } of ranked) {
+    const hit = kept[hitIndex];
+    if (!hit) {
+      continue;
+    }
+
+    hit.extracts.push(extract);
+    if (fits(trimmed)) {
+      extractsKept++;
+      continue;
+    }
+
+    // Past the first extract that didn't fit, only smaller whole extracts are added
+    if (budgetReached) {
+      hit.extracts.pop();
+      continue;
+    }
+    budgetReached = true;
+
+    // Keep as much of this extract as fits, cut at a sentence boundary
+    let low = 0;
+    let high = extract.text.length;
+    let best = '';
+    while (low <= high) {
+      const middle = Math.floor((low + high) / 2);
+      const text = cutAtSentence(extract.text, middle);
+      hit.extracts[hit.extracts.length - 1] = { ...extract, text };
+      if (fits(trimmed)) {
+        best = text;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    if (best.length >= 80) {
+      hit.extracts[hit.extracts.length - 1] = { ...extract, text: best };
+      extractsKept++;
+      extractsShortened++;
+    } else {
+      hit.extracts.pop();
+    }
+  }
+
+  // Keep extracts in relevance order within each hit
+  for (const hit of kept) {
+    hit.extracts.sort((a, b) => b.relevanceScore - a.relevanceScore);
+  }
+  trimmed = { ...response, retrievalHits: kept };
+  const hitsWithoutExtracts = kept.filter((hit, index) => hit.extracts.length === 0 && hits[index].extracts.length > 0).length;
+
+  return {
+    value: trimmed,
+    omitted: {
+      ...(hitsOmitted > 0 ? { hitsOmitted } : {}),
+      ...(hitsWithoutExtracts > 0 ? { hitsWithoutExtracts } : {}),
+      extractsOmitted: totalExtracts - extractsKept,
+      ...(extractsShortened > 0 ? { extractsShortened } : {}),
+    },
+  };
+};
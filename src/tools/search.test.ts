@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { SearchResponse, trimSearchResponse } from './search.js';
+
+function makeResponse(count: number, previewLength: number): SearchResponse {
+  return {
+    totalCount: count,
+    searchHits: Array.from({ length: count }, (_, i) => ({
+      webUrl: `https://contoso.sharepoint.com/doc${i}.docx`,
+      preview: `Document ${i} says hello. `.repeat(Math.ceil(previewLength / 25)).slice(0, previewLength),
+      resourceType: 'driveItem',
+    })),
+  };
+}
+
+const fitsWithin = (budget: number) => (value: unknown) => JSON.stringify(value).length <= budget;
+
+describe('trimSearchResponse', () => {
+  it('shortens long previews at a sentence boundary', () => {
+    const { value, omitted } = trimSearchResponse(makeResponse(2, 1000), () => true);
+    expect(omitted).toEqual({ previewsShortened: 2 });
+    for (const hit of value.searchHits) {
+      expect(hit.preview.length).toBeLessThanOrEqual(300);
+      expect(hit.preview).toMatch(/hello\.…$/);
+    }
+  });
+
+  it('drops the last hits until the response fits', () => {
+    const { value, omitted } = trimSearchResponse(makeResponse(20, 100), fitsWithin(1500));
+    expect(JSON.stringify(value).length).toBeLessThanOrEqual(1500);
+    expect(value.searchHits[0].webUrl).toBe('https://contoso.sharepoint.com/doc0.docx');
+    expect(omitted.hitsOmitted).toBe(20 - value.searchHits.length);
+    expect(omitted).not.toHaveProperty('previewsShortened');
+  });
+
+  it('leaves a response that fits alone', () => {
+    const response = makeResponse(3, 50);
+    const before = JSON.stringify(response);
+    const { value, omitted } = trimSearchResponse(response, () => true);
+    expect(JSON.stringify(value)).toBe(before);
+    expect(omitted).toEqual({});
+  });
+});
@@ -1,6 +1,8 @@
-import { callGraphApi } from '../utils/httpClient.js';
-import { getAuthManager, REQUIRED_SCOPES } from '../auth/identity.js';
+import { callGraphApi, toGraphEndpoint } from '../utils/httpClient.js';
+import { getAuthManager, toGraphScopes } from '../auth/identity.js';
 import { info } from '../utils/logger.js';
+import { Trimmer, cutAtSentence } from '../utils/output.js';
+import { toJsonSchema } from '../utils/schema.js';
 
 /**
  * Copilot Search API Response Types
@@ -14,38 +16,196 @@ export interface SearchHit {
 export interface SearchResponse {
   totalCount: number;
   searchHits: SearchHit[];
+  /** Link to the next page of results; pass it back as nextLink to continue */
+  '@odata.nextLink'?: string;
+}
+
+/**
+ * Copilot Search API endpoint; next page links must point back at it
+ */
+export const SEARCH_ENDPOINT = '/beta/copilot/search';
+
+/**
+ * Graph permissions the Copilot Search API needs (OneDrive and SharePoint content)
+ */
+export const SEARCH_PERMISSIONS: readonly string[] = ['Files.Read.All', 'Sites.Read.All'];
+
+/**
+ * Output schema of the search tool, checked against SearchResponse at compile time
+ */
+export const SEARCH_RESPONSE_SCHEMA = toJsonSchema<SearchResponse>({
+  type: 'object',
+  properties: {
+    totalCount: { type: 'integer' },
+    searchHits: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          webUrl: { type: 'string' },
+          preview: { type: 'string' },
+          resourceType: { type: 'string' },
+        },
+      },
+    },
+    '@odata.nextLink': { type: 'string', optional: true },
+  },
+});
+
+/**
+ * Optional Search API parameters
+ */
+export interface SearchOptions {
+  /** Number of results per page (1-100) */
+  pageSize?: number;
+  /** '@odata.nextLink' from a previous response, to fetch the next page */
+  nextLink?: string;
+  /** Follow pages server-side until this many results are collected */
+  maxResults?: number;
+}
+
+/**
+ * Maximum page size accepted by the Search API
+ */
+export const MAX_SEARCH_PAGE_SIZE = 100;
+
+/**
+ * Hard cap on results collected when following pages server-side
+ */
+export const MAX_SEARCH_RESULTS = 500;
+
+/**
+ * Preview length kept when a response has to be trimmed
+ */
+const MAX_TRIMMED_PREVIEW_LENGTH = 300;
+
+/**
+ * Fetch a single page of search results
+ */
+async function fetchSearchPage(
+  query: string,
+  pageSize: number | undefined,
+  nextLink: string | undefined,
+  accessToken: string
+): Promise<SearchResponse> {
+  if (nextLink) {
+    return callGraphApi(toGraphEndpoint(nextLink, SEARCH_ENDPOINT), 'GET', null, accessToken);
+  }
+
+  return callGraphApi(
+    SEARCH_ENDPOINT,
+    'POST',
+    { query, ...(pageSize ? { pageSize } : {}) },
+    accessToken,
+    // Search only reads, so it is safe to send again
+    { idempotent: true }
+  );
 }
 
 /**
  * Call Microsoft 365 Copilot Search API
  * Searches across SharePoint, OneDrive, and other M365 content
  *
+ * By default a single page is returned together with its '@odata.nextLink',
+ * so callers can page through results. With maxResults, pages are followed
+ * server-side until maxResults (capped at MAX_SEARCH_RESULTS) hits are collected.
+ *
  * @param query - Natural language search query from the user
+ * @param options - Optional page size, continuation link and result cap
  * @returns Search response with document links and previews
  */
 export async function copilotSearch(
-  query: string
+  query: string,
+  options: SearchOptions = {}
 ): Promise<SearchResponse> {
   info('Calling Copilot Search API', {
     queryLength: query.length,
+    pageSize: options.pageSize,
+    hasNextLink: !!options.nextLink,
+    maxResults: options.maxResults,
   });
 
   // Get access token
   const authManager = getAuthManager();
-  const accessToken = await authManager.getAccessToken(REQUIRED_SCOPES);
+  const accessToken = await authManager.getAccessToken(toGraphScopes(SEARCH_PERMISSIONS));
+
+  // When collecting several pages, ask for as few pages as possible
+  const pageSize = options.pageSize
+    ?? (options.maxResults ? Math.min(options.maxResults, MAX_SEARCH_PAGE_SIZE, MAX_SEARCH_RESULTS) : undefined);
 
   // Call Search API
-  const result = await callGraphApi(
-    '/beta/copilot/search',
-    'POST',
-    { query },
-    accessToken
-  );
+  const result = await fetchSearchPage(query, pageSize, options.nextLink, accessToken);
+
+  if (!options.maxResults) {
+    info('Copilot Search API call succeeded', {
+      totalCount: result.totalCount,
+      hitsReturned: result.searchHits?.length || 0,
+      hasNextLink: !!result['@odata.nextLink'],
+    });
 
-  info('Copilot Search API call succeeded', {
+    return result;
+  }
+
+  // Follow pages until enough results are collected or there are no more pages
+  const limit = Math.min(options.maxResults, MAX_SEARCH_RESULTS);
+  const searchHits: SearchHit[] = [...(result.searchHits || [])];
+  let nextLink = result['@odata.nextLink'];
+  let pages = 1;
+
+  while (searchHits.length < limit && nextLink) {
+    const page = await fetchSearchPage(query, undefined, nextLink, accessToken);
+    const pageHits = page.searchHits || [];
+    searchHits.push(...pageHits);
+    nextLink = page['@odata.nextLink'];
+    pages++;
+
+    if (pageHits.length === 0) {
+      break;
+    }
+  }
+
+  // A trimmed page cannot be resumed from its nextLink without losing hits
+  const trimmed = searchHits.length > limit;
+
+  info('Copilot Search API calls succeeded', {
     totalCount: result.totalCount,
-    hitsReturned: result.searchHits?.length || 0,
+    pages,
+    hitsReturned: Math.min(searchHits.length, limit),
+    trimmed,
   });
 
-  return result;
+  return {
+    totalCount: result.totalCount,
+    searchHits: searchHits.slice(0, limit),
+    ...(nextLink && !trimmed ? { '@odata.nextLink': nextLink } : {}),
+  };
 }
+
+/**
+ * Trim a search response to an output budget
+ * Long previews are cut at a sentence boundary first, then the last hits are omitted.
+ */
+export const trimSearchResponse: Trimmer<SearchResponse> = (response, fits) => {
+  const hits = response.searchHits || [];
+  let previewsShortened = 0;
+  for (const hit of hits) {
+    if (hit.preview && hit.preview.length > MAX_TRIMMED_PREVIEW_LENGTH) {
+      hit.preview = cutAtSentence(hit.preview, MAX_TRIMMED_PREVIEW_LENGTH);
+      previewsShortened++;
+    }
+  }
+
+  let hitsOmitted = 0;
+  while (hits.length > 0 && !fits(response)) {
+    hits.pop();
+    hitsOmitted++;
+  }
+
+  return {
+    value: response,
+    omitted: {
+      ...(previewsShortened > 0 ? { previewsShortened } : {}),
+      ...(hitsOmitted > 0 ? { hitsOmitted } : {}),
+    },
+  };
+};
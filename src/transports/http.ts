@@ -0,0 +1,457 @@
+/**
+ * HTTP transport for shared deployments
+ * Serves MCP over Streamable HTTP (/mcp) and the legacy HTTP+SSE transport
+ * (/sse + /messages), with one MCP server instance per client session and a
+ * bearer token / API key gate in front of every session. In on-behalf-of mode
+ * (AUTH_METHOD=OnBehalfOf) the gate accepts Entra ID user tokens for this app
+ * instead, and tool calls run with the caller's own Graph token.
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import * as fs from 'fs';
+import { randomUUID, createHash, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../server.js';
+import { AuthenticationError, ConfigurationError } from '../utils/errors.js';
+import { info, warn, debug, error as logError } from '../utils/logger.js';
+import { getAuthManager } from '../auth/identity.js';
+
+/**
+ * HTTP transport configuration
+ */
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  /** PEM certificate file - enables HTTPS together with tlsKeyPath */
+  tlsCertPath?: string;
+  /** PEM private key file */
+  tlsKeyPath?: string;
+  /** Accepted bearer tokens / API keys */
+  authTokens: string[];
+  /** Accept Entra ID user tokens and exchange them on behalf of the caller */
+  onBehalfOf: boolean;
+  /** Idle time after which a session is closed */
+  sessionIdleTimeoutMs: number;
+}
+
+/**
+ * State kept for every connected client
+ */
+interface Session {
+  id: string;
+  kind: 'streamable' | 'sse';
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  /** Hash of the credential (or, on behalf of users, the user) that opened the session */
+  principal: string;
+  createdAt: number;
+  lastActivity: number;
+}
+
+type AuthenticatedRequest = http.IncomingMessage & { auth?: AuthInfo };
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+/**
+ * Load HTTP transport options from environment variables
+ * - MCP_HTTP_HOST (default: 127.0.0.1)
+ * - MCP_HTTP_PORT (default: 3000)
+ * - MCP_HTTP_TLS_CERT / MCP_HTTP_TLS_KEY: PEM files to serve HTTPS
+ * - MCP_HTTP_AUTH_TOKENS: comma-separated bearer tokens / API keys
+ * - MCP_HTTP_SESSION_IDLE_TIMEOUT_MS (default: 1800000)
+ * On-behalf-of mode follows the AUTH_METHOD setting.
+ */
+export function loadHttpTransportOptionsFromEnv(): HttpTransportOptions {
+  const port = Number(process.env.MCP_HTTP_PORT || 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new ConfigurationError('MCP_HTTP_PORT must be a valid port number', {
+      setting: 'MCP_HTTP_PORT',
+      value: process.env.MCP_HTTP_PORT,
+    });
+  }
+
+  const sessionIdleTimeoutMs = Number(process.env.MCP_HTTP_SESSION_IDLE_TIMEOUT_MS || 30 * 60 * 1000);
+  if (!Number.isInteger(sessionIdleTimeoutMs) || sessionIdleTimeoutMs <= 0) {
+    throw new ConfigurationError('MCP_HTTP_SESSION_IDLE_TIMEOUT_MS must be a positive integer', {
+      setting: 'MCP_HTTP_SESSION_IDLE_TIMEOUT_MS',
+      value: process.env.MCP_HTTP_SESSION_IDLE_TIMEOUT_MS,
+    });
+  }
+
+  return {
+    host: process.env.MCP_HTTP_HOST || '127.0.0.1',
+    port,
+    tlsCertPath: process.env.MCP_HTTP_TLS_CERT,
+    tlsKeyPath: process.env.MCP_HTTP_TLS_KEY,
+    authTokens: (process.env.MCP_HTTP_AUTH_TOKENS || '')
+      .split(',')
+      .map(token => token.trim())
+      .filter(token => token.length > 0),
+    onBehalfOf: getAuthManager().isOnBehalfOf(),
+    sessionIdleTimeoutMs,
+  };
+}
+
+/**
+ * Validate options before the server starts listening
+ */
+function validateOptions(options: HttpTransportOptions): void {
+  if (!!options.tlsCertPath !== !!options.tlsKeyPath) {
+    throw new ConfigurationError('MCP_HTTP_TLS_CERT and MCP_HTTP_TLS_KEY must be set together', {
+      hasCert: !!options.tlsCertPath,
+      hasKey: !!options.tlsKeyPath,
+    });
+  }
+
+  // Caller tokens are the gate in on-behalf-of mode; shared tokens could not be exchanged
+  if (options.onBehalfOf && options.authTokens.length > 0) {
+    throw new ConfigurationError('MCP_HTTP_AUTH_TOKENS cannot be used with AUTH_METHOD=OnBehalfOf', {
+      setting: 'MCP_HTTP_AUTH_TOKENS',
+    });
+  }
+
+  // Never expose an unauthenticated server beyond the local machine
+  if (!options.onBehalfOf && options.authTokens.length === 0 && !LOOPBACK_HOSTS.includes(options.host)) {
+    throw new ConfigurationError(
+      'MCP_HTTP_AUTH_TOKENS is required when the HTTP transport listens on a non-loopback host',
+      { host: options.host }
+    );
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Extract the credential from the Authorization (Bearer) or X-API-Key header
+ */
+function extractCredential(req: http.IncomingMessage): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization && /^bearer\s+/i.test(authorization)) {
+    return authorization.replace(/^bearer\s+/i, '').trim();
+  }
+
+  const apiKey = req.headers['x-api-key'];
+  return Array.isArray(apiKey) ? apiKey[0] : apiKey;
+}
+
+/**
+ * Check the request credential against the configured tokens (constant time)
+ * @returns Auth info for the MCP request handlers, or null if rejected
+ */
+function authenticate(req: http.IncomingMessage, tokenHashes: Buffer[]): AuthInfo | null {
+  const credential = extractCredential(req);
+
+  if (tokenHashes.length === 0) {
+    // Loopback-only server without a gate
+    return { token: credential || '', clientId: 'anonymous', scopes: [] };
+  }
+
+  if (!credential) {
+    return null;
+  }
+
+  const presented = Buffer.from(hashToken(credential), 'hex');
+  const index = tokenHashes.findIndex(hash => timingSafeEqual(hash, presented));
+  if (index === -1) {
+    return null;
+  }
+
+  return { token: credential, clientId: `token-${index + 1}`, scopes: [] };
+}
+
+/**
+ * Validate the caller's Entra ID token (on-behalf-of mode)
+ * @returns Auth info carrying the caller, or null if rejected
+ */
+async function authenticateCaller(req: http.IncomingMessage): Promise<AuthInfo | null> {
+  const authorization = req.headers.authorization;
+  if (!authorization || !/^bearer\s+/i.test(authorization)) {
+    return null;
+  }
+
+  const token = authorization.replace(/^bearer\s+/i, '').trim();
+  try {
+    const caller = await getAuthManager().validateCallerToken(token);
+    return {
+      token,
+      clientId: caller.userId,
+      scopes: [],
+      expiresAt: Math.floor(caller.expiresAt / 1000),
+      extra: { caller },
+    };
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      warn('Rejected caller token', { reason: error.message });
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Identify who opened a session; callers keep their sessions when their token is renewed
+ */
+function getPrincipal(auth: AuthInfo): string {
+  const caller = auth.extra?.caller as { userId: string; tenantId: string } | undefined;
+  return hashToken(caller ? `user:${caller.tenantId}/${caller.userId}` : auth.token);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Start the HTTP transport
+ * @returns The listening Node.js server
+ */
+export async function startHttpTransport(options: HttpTransportOptions): Promise<http.Server> {
+  validateOptions(options);
+
+  const sessions = new Map<string, Session>();
+  const tokenHashes = options.authTokens.map(token => Buffer.from(hashToken(token), 'hex'));
+
+  const closeSession = async (sessionId: string, reason: string): Promise<void> => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    sessions.delete(sessionId);
+    info('Closing MCP session', { sessionId, kind: session.kind, reason });
+    try {
+      await session.server.close();
+    } catch (error) {
+      debug('Error while closing MCP session', { sessionId, error: String(error) });
+    }
+  };
+
+  /**
+   * Look up a session and make sure it belongs to the caller
+   */
+  const getSession = (sessionId: string, auth: AuthInfo, res: http.ServerResponse): Session | null => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return null;
+    }
+    if (session.principal !== getPrincipal(auth)) {
+      warn('Rejected request for a session opened with a different credential', { sessionId });
+      sendJsonRpcError(res, 403, 'Session belongs to a different client');
+      return null;
+    }
+    session.lastActivity = Date.now();
+    return session;
+  };
+
+  const handleStreamable = async (req: AuthenticatedRequest, res: http.ServerResponse, auth: AuthInfo): Promise<void> => {
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = getSession(sessionId, auth, res);
+      if (!session) {
+        return;
+      }
+      if (session.kind !== 'streamable') {
+        sendJsonRpcError(res, 400, 'Session uses a different transport');
+        return;
+      }
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    // New session: one MCP server instance per client
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        const now = Date.now();
+        sessions.set(newSessionId, {
+          id: newSessionId,
+          kind: 'streamable',
+          transport,
+          server,
+          principal: getPrincipal(auth),
+          createdAt: now,
+          lastActivity: now,
+        });
+        info('MCP session initialized', { sessionId: newSessionId, kind: 'streamable', clientId: auth.clientId });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnect = async (res: http.ServerResponse, auth: AuthInfo): Promise<void> => {
+    const transport = new SSEServerTransport('/messages', res);
+    const server = createServer();
+    const now = Date.now();
+
+    sessions.set(transport.sessionId, {
+      id: transport.sessionId,
+      kind: 'sse',
+      transport,
+      server,
+      principal: getPrincipal(auth),
+      createdAt: now,
+      lastActivity: now,
+    });
+    transport.onclose = () => {
+      sessions.delete(transport.sessionId);
+    };
+
+    info('MCP session initialized', { sessionId: transport.sessionId, kind: 'sse', clientId: auth.clientId });
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: AuthenticatedRequest, res: http.ServerResponse, url: URL, auth: AuthInfo): Promise<void> => {
+    const sessionId = url.searchParams.get('sessionId');
+    if (!sessionId) {
+      sendJsonRpcError(res, 400, 'Missing sessionId query parameter');
+      return;
+    }
+
+    const session = getSession(sessionId, auth, res);
+    if (!session) {
+      return;
+    }
+    if (session.kind !== 'sse') {
+      sendJsonRpcError(res, 400, 'Session uses a different transport');
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res, body);
+  };
+
+  const requestListener = async (req: AuthenticatedRequest, res: http.ServerResponse): Promise<void> => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    try {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+        return;
+      }
+
+      const auth = options.onBehalfOf ? await authenticateCaller(req) : authenticate(req, tokenHashes);
+      if (!auth) {
+        warn('Rejected unauthenticated HTTP request', { path: url.pathname, remoteAddress: req.socket.remoteAddress });
+        const message = options.onBehalfOf
+          ? 'A valid Entra ID access token for this app is required'
+          : 'A valid bearer token or X-API-Key header is required';
+        sendJson(res, 401, { error: 'unauthorized', message }, {
+          'WWW-Authenticate': options.onBehalfOf ? 'Bearer error="invalid_token"' : 'Bearer',
+        });
+        return;
+      }
+      req.auth = auth;
+
+      if (url.pathname === '/mcp' && ['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+        await handleStreamable(req, res, auth);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseConnect(res, auth);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url, auth);
+      } else {
+        sendJson(res, 404, { error: 'not_found' });
+      }
+    } catch (error) {
+      logError('Error handling HTTP request', error, { method: req.method, path: url.pathname });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, error instanceof SyntaxError ? 'Invalid JSON body' : 'Internal server error');
+      }
+    }
+  };
+
+  const useTls = !!(options.tlsCertPath && options.tlsKeyPath);
+  const httpServer = useTls
+    ? https.createServer(
+        {
+          cert: fs.readFileSync(options.tlsCertPath!),
+          key: fs.readFileSync(options.tlsKeyPath!),
+        },
+        requestListener
+      )
+    : http.createServer(requestListener);
+
+  // Close idle sessions
+  const sweepTimer = setInterval(() => {
+    const cutoff = Date.now() - options.sessionIdleTimeoutMs;
+    for (const session of sessions.values()) {
+      if (session.lastActivity < cutoff) {
+        void closeSession(session.id, 'idle timeout');
+      }
+    }
+  }, 60 * 1000);
+  sweepTimer.unref();
+
+  httpServer.on('close', () => {
+    clearInterval(sweepTimer);
+    for (const sessionId of [...sessions.keys()]) {
+      void closeSession(sessionId, 'server shutdown');
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  info(`MCP HTTP transport listening on ${useTls ? 'https' : 'http'}://${options.host}:${options.port}`, {
+    streamableEndpoint: '/mcp',
+    sseEndpoint: '/sse',
+    authGate: options.onBehalfOf ? 'on-behalf-of (Entra ID user tokens)' : tokenHashes.length > 0 ? 'enabled' : 'disabled (loopback only)',
+  });
+
+  return httpServer;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { renderAdaptiveCard, renderAdaptiveCards } from './adaptiveCard.js';
+
+describe('renderAdaptiveCard', () => {
+  it('renders text, facts and links', () => {
+    const card = {
+      type: 'AdaptiveCard',
+      body: [
+        { type: 'TextBlock', text: 'Weekly report', style: 'heading' },
+        { type: 'TextBlock', text: 'All on track', weight: 'bolder' },
+        { type: 'FactSet', facts: [{ title: 'Owner:', value: 'Megan' }, { title: 'Status', value: 'Green' }] },
+        {
+          type: 'RichTextBlock',
+          inlines: [
+            'See ',
+            { type: 'TextRun', text: 'the plan', italic: true, selectAction: { type: 'Action.OpenUrl', url: 'https://contoso/plan' } },
+          ],
+        },
+      ],
+      actions: [
+        { type: 'Action.OpenUrl', title: 'Open', url: 'https://contoso/report' },
+        { type: 'Action.Submit', title: 'Approve' },
+      ],
+    };
+
+    expect(renderAdaptiveCard(card)).toBe([
+      '### Weekly report',
+      '**All on track**',
+      '- **Owner:** Megan\n- **Status:** Green',
+      'See [_the plan_](https://contoso/plan)',
+      '- [Open](https://contoso/report)\n- _[Action Submit: Approve]_',
+    ].join('\n\n'));
+  });
+
+  it('renders tables with escaped cells', () => {
+    const cell = (text: string) => ({ items: [{ type: 'TextBlock', text }] });
+    const card = {
+      body: [{
+        type: 'Table',
+        columns: [{}, {}],
+        rows: [
+          { cells: [cell('Name'), cell('Value')] },
+          { cells: [cell('a|b'), cell('line 1\nline 2')] },
+          { cells: [cell('only one')] },
+        ],
+      }],
+    };
+
+    expect(renderAdaptiveCard(card)).toBe([
+      '| Name | Value |',
+      '| --- | --- |',
+      '| a\\|b | line 1 line 2 |',
+      '| only one |  |',
+    ].join('\n'));
+  });
+
+  it('uses fallbacks and placeholders for unsupported elements', () => {
+    const card = {
+      body: [
+        { type: 'Media', fallback: { type: 'TextBlock', text: 'Video not supported' } },
+        { type: 'Carousel', fallback: 'drop' },
+        { type: 'Input.Text', label: 'Your name' },
+        { type: 'Rating' },
+        { type: 'TextBlock', text: 'Hidden', isVisible: false },
+      ],
+    };
+
+    expect(renderAdaptiveCard(card)).toBe([
+      'Video not supported',
+      '_[Input Text: Your name]_',
+      '_[Unsupported element: Rating]_',
+    ].join('\n\n'));
+  });
+
+  it('accepts JSON strings and attachment wrappers', () => {
+    const card = { type: 'AdaptiveCard', body: [{ type: 'TextBlock', text: 'Hello' }] };
+    expect(renderAdaptiveCard(JSON.stringify(card))).toBe('Hello');
+    expect(renderAdaptiveCard({ contentType: 'application/vnd.microsoft.card.adaptive', content: card })).toBe('Hello');
+    expect(renderAdaptiveCard('not json')).toBe('not json');
+    expect(renderAdaptiveCard(42)).toBe('_[Unreadable card]_');
+  });
+
+  it('uses the fallback text of a card with no content', () => {
+    expect(renderAdaptiveCard({ body: [], fallbackText: 'Plain text' })).toBe('Plain text');
+  });
+
+  it('stops rendering at the maximum nesting depth', () => {
+    let element: Record<string, unknown> = { type: 'TextBlock', text: 'Deep' };
+    for (let i = 0; i < 20; i++) {
+      element = { type: 'Container', items: [element] };
+    }
+    expect(renderAdaptiveCard({ body: [element] })).toBe('_[Nested content omitted]_');
+  });
+});
+
+describe('renderAdaptiveCards', () => {
+  it('skips cards without content', () => {
+    expect(renderAdaptiveCards([{ body: [] }, { body: [{ type: 'TextBlock', text: 'Hi' }] }])).toEqual(['Hi']);
+    expect(renderAdaptiveCards(undefined)).toEqual([]);
+  });
+});
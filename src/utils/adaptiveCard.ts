@@ -0,0 +1,288 @@
+/**
+ * Adaptive Card to Markdown converter
+ * Copilot replies can carry Adaptive Cards, which most MCP clients cannot render.
+ * This module turns the common elements into Markdown so the content stays readable.
+ *
+ * Supported: TextBlock, RichTextBlock, FactSet, ColumnSet/Column, Container,
+ * Image, ImageSet, Table, ActionSet and Action.OpenUrl/ShowCard.
+ * Other elements use their declared fallback when present, and are otherwise
+ * rendered as a short placeholder so the reader knows something was left out.
+ */
+
+import { debug } from './logger.js';
+
+/**
+ * Adaptive Card element or action (loosely typed; cards come straight from Graph)
+ */
+export interface AdaptiveCardElement {
+  type?: string;
+  [key: string]: any;
+}
+
+export interface AdaptiveCard extends AdaptiveCardElement {
+  body?: AdaptiveCardElement[];
+  actions?: AdaptiveCardElement[];
+  fallbackText?: string;
+}
+
+/**
+ * Maximum nesting depth rendered; deeper content becomes a placeholder
+ */
+const MAX_DEPTH = 16;
+
+/**
+ * Placeholder for content that cannot be represented in Markdown
+ */
+function placeholder(kind: string, label?: string): string {
+  return label ? `_[${kind}: ${label}]_` : `_[${kind}]_`;
+}
+
+/**
+ * Escape characters that would break a Markdown table cell
+ */
+function toTableCell(markdown: string): string {
+  return markdown.replace(/\|/g, '\\|').replace(/\s*\n+\s*/g, ' ').trim();
+}
+
+function renderTextBlock(element: AdaptiveCardElement): string {
+  const text = String(element.text ?? '').trim();
+  if (!text) {
+    return '';
+  }
+
+  if (element.style === 'heading' || element.size === 'large' || element.size === 'extraLarge') {
+    return `### ${text.replace(/\n+/g, ' ')}`;
+  }
+  if (element.weight === 'bolder' && !text.includes('\n')) {
+    return `**${text}**`;
+  }
+  return text;
+}
+
+function renderTextRun(run: AdaptiveCardElement | string): string {
+  if (typeof run === 'string') {
+    return run;
+  }
+  if (run.type && run.type !== 'TextRun') {
+    return placeholder('Unsupported inline', run.type);
+  }
+
+  let text = String(run.text ?? '');
+  if (!text.trim()) {
+    return text;
+  }
+  if (run.weight === 'bolder') {
+    text = `**${text}**`;
+  }
+  if (run.italic) {
+    text = `_${text}_`;
+  }
+  if (run.strikethrough) {
+    text = `~~${text}~~`;
+  }
+  if (run.selectAction?.type === 'Action.OpenUrl' && run.selectAction.url) {
+    text = `[${text}](${run.selectAction.url})`;
+  }
+  return text;
+}
+
+function renderFactSet(element: AdaptiveCardElement): string {
+  return (element.facts || [])
+    .map((fact: AdaptiveCardElement) => {
+      const title = String(fact.title ?? '').trim().replace(/:$/, '');
+      return `- **${title}:** ${String(fact.value ?? '').trim()}`;
+    })
+    .join('\n');
+}
+
+function renderImage(element: AdaptiveCardElement): string {
+  if (!element.url) {
+    return '';
+  }
+  const alt = String(element.altText || 'image').replace(/[[\]]/g, '');
+  return `![${alt}](${element.url})`;
+}
+
+function renderTable(element: AdaptiveCardElement, depth: number): string {
+  const rows: AdaptiveCardElement[] = element.rows || [];
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const cellText = (row: AdaptiveCardElement) =>
+    (row.cells || []).map((cell: AdaptiveCardElement) => toTableCell(renderElements(cell.items, depth + 1, ' ')));
+
+  const renderedRows = rows.map(cellText);
+  const columnCount = Math.max(element.columns?.length || 0, ...renderedRows.map(cells => cells.length));
+  const pad = (cells: string[]) => [...cells, ...Array(columnCount - cells.length).fill('')];
+
+  // firstRowAsHeader defaults to true in the Adaptive Card schema
+  const header = element.firstRowAsHeader === false ? Array(columnCount).fill('') : renderedRows.shift()!;
+  const lines = [
+    `| ${pad(header).join(' | ')} |`,
+    `| ${Array(columnCount).fill('---').join(' | ')} |`,
+    ...renderedRows.map(cells => `| ${pad(cells).join(' | ')} |`),
+  ];
+  return lines.join('\n');
+}
+
+function renderAction(action: AdaptiveCardElement, depth: number): string {
+  const title = String(action.title ?? '').trim();
+
+  switch (action.type) {
+    case 'Action.OpenUrl':
+      return action.url ? `[${title || action.url}](${action.url})` : title;
+
+    case 'Action.ShowCard': {
+      const card = action.card ? renderCard(action.card, depth + 1) : '';
+      return [title ? `**${title}**` : '', card].filter(Boolean).join('\n\n');
+    }
+
+    default:
+      // Submit/Execute/ToggleVisibility need an interactive host
+      return placeholder(`Action ${String(action.type || 'unknown').replace(/^Action\./, '')}`, title || undefined);
+  }
+}
+
+function renderActions(actions: AdaptiveCardElement[] | undefined, depth: number): string {
+  return (actions || [])
+    .map(action => renderAction(action, depth))
+    .filter(Boolean)
+    .map(line => (line.startsWith('[') || line.startsWith('_[') ? `- ${line}` : line))
+    .join('\n');
+}
+
+/**
+ * Render a single element to Markdown
+ */
+function renderElement(element: AdaptiveCardElement | undefined, depth: number): string {
+  if (!element || typeof element !== 'object' || element.isVisible === false) {
+    return '';
+  }
+  if (depth > MAX_DEPTH) {
+    return placeholder('Nested content omitted');
+  }
+
+  switch (element.type) {
+    case 'TextBlock':
+      return renderTextBlock(element);
+
+    case 'RichTextBlock':
+      return (element.inlines || []).map(renderTextRun).join('').trim();
+
+    case 'FactSet':
+      return renderFactSet(element);
+
+    case 'Container':
+    case 'Column':
+      return renderElements(element.items, depth + 1);
+
+    case 'ColumnSet':
+      // Markdown has no columns; render them one after another
+      return (element.columns || [])
+        .map((column: AdaptiveCardElement) => renderElement({ type: 'Column', ...column }, depth + 1))
+        .filter(Boolean)
+        .join('\n\n');
+
+    case 'Image':
+      return renderImage(element);
+
+    case 'ImageSet':
+      return (element.images || []).map(renderImage).filter(Boolean).join(' ');
+
+    case 'Table':
+      return renderTable(element, depth);
+
+    case 'ActionSet':
+      return renderActions(element.actions, depth);
+
+    case 'AdaptiveCard':
+      return renderCard(element, depth + 1);
+
+    default:
+      break;
+  }
+
+  if (typeof element.type === 'string' && element.type.startsWith('Action.')) {
+    return renderAction(element, depth);
+  }
+
+  // Per the Adaptive Card spec, hosts fall back to the element's declared fallback
+  if (element.fallback && typeof element.fallback === 'object') {
+    return renderElement(element.fallback, depth + 1);
+  }
+  if (element.fallback === 'drop') {
+    return '';
+  }
+
+  debug('Unsupported Adaptive Card element', { type: element.type });
+  if (typeof element.type === 'string' && element.type.startsWith('Input.')) {
+    return placeholder(`Input ${element.type.slice('Input.'.length)}`, element.label || element.placeholder || element.id);
+  }
+  return placeholder('Unsupported element', element.type || 'unknown');
+}
+
+/**
+ * Render a list of elements, separated by blank lines (or the given separator)
+ */
+function renderElements(elements: AdaptiveCardElement[] | undefined, depth: number, separator = '\n\n'): string {
+  if (!Array.isArray(elements)) {
+    return '';
+  }
+  return elements
+    .map(element => renderElement(element, depth))
+    .filter(Boolean)
+    .join(separator);
+}
+
+function renderCard(card: AdaptiveCard, depth: number): string {
+  const parts = [renderElements(card.body, depth), renderActions(card.actions, depth)].filter(Boolean);
+  if (parts.length === 0 && card.fallbackText) {
+    return String(card.fallbackText);
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * Unwrap the different shapes a card can arrive in:
+ * the card itself, a JSON string, or an attachment ({ contentType, content })
+ */
+function unwrapCard(card: unknown): AdaptiveCard | null {
+  let value = card;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const candidate = value as AdaptiveCardElement;
+  if (candidate.content && typeof candidate.content === 'object' && !candidate.body) {
+    return candidate.content as AdaptiveCard;
+  }
+  return candidate as AdaptiveCard;
+}
+
+/**
+ * Render an Adaptive Card as Markdown
+ * @param card - Card object, JSON string or attachment wrapper
+ * @returns Markdown text (empty if the card has no renderable content)
+ */
+export function renderAdaptiveCard(card: unknown): string {
+  const unwrapped = unwrapCard(card);
+  if (!unwrapped) {
+    return typeof card === 'string' ? card : placeholder('Unreadable card');
+  }
+  return renderCard(unwrapped, 0).trim();
+}
+
+/**
+ * Render a list of Adaptive Cards as Markdown, skipping cards with no content
+ */
+export function renderAdaptiveCards(cards: unknown[] | undefined): string[] {
+  return (cards || []).map(renderAdaptiveCard).filter(Boolean);
+}
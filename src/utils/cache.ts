@@ -0,0 +1,357 @@
+/**
+ * Response cache for Graph-backed tool calls
+ * Agents often repeat the same search or retrieval query within a short time.
+ * Results are cached per tool, normalized arguments and signed-in account with
+ * a TTL and an LRU size cap. Identical requests that are already in flight
+ * share a single Graph call.
+ */
+
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { ConfigurationError } from './errors.js';
+import { envInteger } from './retry.js';
+import { getConfigFilePath } from './paths.js';
+import { debug, info, error as logError } from './logger.js';
+import { toJsonSchema } from './schema.js';
+
+export interface ResponseCacheOptions {
+  /** How long a cached response is served (0 disables the cache) */
+  ttlMs: number;
+  /** Maximum number of cached responses; least recently used entries are evicted */
+  maxEntries: number;
+  /** Keep cached responses on disk so they survive a restart */
+  persist: boolean;
+}
+
+/**
+ * How a response was obtained
+ * - miss: fetched from Graph
+ * - hit: served from the cache
+ * - coalesced: shared with an identical request that was already in flight
+ */
+export type CacheStatus = 'miss' | 'hit' | 'coalesced';
+
+/**
+ * Marker added to results that did not come straight from Graph
+ */
+export interface CacheInfo {
+  status: CacheStatus;
+  /** Age of the cached response in seconds (hits only) */
+  ageSeconds?: number;
+}
+
+export const CACHE_INFO_SCHEMA = toJsonSchema<CacheInfo>({
+  type: 'object',
+  description: 'Present when the result was served from the response cache or shared with an identical request',
+  properties: {
+    status: { type: 'string', enum: ['miss', 'hit', 'coalesced'] },
+    ageSeconds: { type: 'integer', optional: true },
+  },
+});
+
+export interface CacheResult<T> {
+  value: T;
+  status: CacheStatus;
+  /** Age of the cached response (hits only) */
+  ageMs?: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+  expiresAt: number;
+}
+
+interface PersistedCache {
+  version: 1;
+  entries: Array<[string, CacheEntry]>;
+}
+
+const CACHE_FILE_NAME = 'response-cache.json';
+
+/**
+ * Load cache options from environment variables
+ * - M365_CACHE_TTL_MS (default: 60000, 0 disables caching)
+ * - M365_CACHE_MAX_ENTRIES (default: 100)
+ * - M365_CACHE_PERSIST (default: false)
+ */
+export function loadResponseCacheOptionsFromEnv(): ResponseCacheOptions {
+  const persist = (process.env.M365_CACHE_PERSIST || 'false').trim().toLowerCase();
+  if (persist !== 'true' && persist !== 'false') {
+    throw new ConfigurationError('M365_CACHE_PERSIST must be true or false', {
+      setting: 'M365_CACHE_PERSIST',
+      value: process.env.M365_CACHE_PERSIST,
+    });
+  }
+
+  return {
+    ttlMs: envInteger('M365_CACHE_TTL_MS', 60_000),
+    maxEntries: Math.max(1, envInteger('M365_CACHE_MAX_ENTRIES', 100)),
+    persist: persist === 'true',
+  };
+}
+
+/**
+ * Normalize a value so equivalent arguments produce the same key:
+ * object keys are sorted, empty values dropped, strings trimmed with
+ * whitespace collapsed, and string lists sorted (their order doesn't matter)
+ */
+function normalize(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.trim().replace(/\s+/g, ' ');
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(normalize);
+    return items.every(item => typeof item === 'string') ? [...new Set(items as string[])].sort() : items;
+  }
+  if (value && typeof value === 'object') {
+    const normalized: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const item = (value as Record<string, unknown>)[key];
+      if (item !== undefined && item !== null) {
+        normalized[key] = normalize(item);
+      }
+    }
+    return normalized;
+  }
+  return value;
+}
+
+/**
+ * Key prefix shared by all entries of an account
+ */
+function accountPrefix(account: string): string {
+  return `${createHash('sha256').update(account).digest('hex').slice(0, 16)}:`;
+}
+
+/**
+ * Build a cache key from the tool name, its arguments and the signed-in account
+ * Keys start with a prefix derived from the account, so an account's entries
+ * can be dropped on their own (see ResponseCache.clearAccount).
+ */
+export function buildCacheKey(tool: string, args: Record<string, unknown>, account: string): string {
+  const material = JSON.stringify([tool, account, normalize(args)]);
+  return `${accountPrefix(account)}${tool}:${createHash('sha256').update(material).digest('hex')}`;
+}
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  private loaded = false;
+  /** Bumped by clear(), so requests started before a clear aren't stored after it */
+  private generation = 0;
+
+  constructor(private readonly options: ResponseCacheOptions) {}
+
+  get enabled(): boolean {
+    return this.options.ttlMs > 0;
+  }
+
+  /**
+   * File the cache is saved to, or null if it is kept in memory only
+   */
+  get filePath(): string | null {
+    return this.options.persist ? getConfigFilePath(CACHE_FILE_NAME) : null;
+  }
+
+  /**
+   * Return the cached value for key, or fetch and cache it
+   * Concurrent calls with the same key share one fetch. Failures are not cached.
+   */
+  async getOrFetch<T>(key: string, fetcher: () => Promise<T>): Promise<CacheResult<T>> {
+    if (!this.enabled) {
+      return { value: await fetcher(), status: 'miss' };
+    }
+
+    this.ensureLoaded();
+    const now = Date.now();
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > now) {
+      // Move to the end so the map stays in least-recently-used order
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      debug('Response cache hit', { key });
+      return { value: entry.value as T, status: 'hit', ageMs: now - entry.storedAt };
+    }
+    if (entry) {
+      this.entries.delete(key);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      debug('Joining in-flight request', { key });
+      return { value: (await pending) as T, status: 'coalesced' };
+    }
+
+    const generation = this.generation;
+    const request = fetcher();
+    this.inFlight.set(key, request);
+    try {
+      const value = await request;
+      if (generation === this.generation) {
+        this.store(key, value);
+      }
+      return { value, status: 'miss' };
+    } finally {
+      if (this.inFlight.get(key) === request) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drop all cached responses, in memory and on disk
+   */
+  clear(): void {
+    this.entries.clear();
+    this.inFlight.clear();
+    this.generation++;
+    this.loaded = true;
+
+    const cachePath = getConfigFilePath(CACHE_FILE_NAME);
+    try {
+      if (fs.existsSync(cachePath)) {
+        fs.unlinkSync(cachePath);
+        info('Deleted response cache file', { path: cachePath });
+      }
+    } catch (err) {
+      logError('Failed to delete response cache file', err);
+    }
+  }
+
+  /**
+   * Drop the cached responses of one account (e.g. an on-behalf-of caller
+   * that logged out), keeping those of other accounts
+   */
+  clearAccount(account: string): void {
+    this.ensureLoaded();
+    const prefix = accountPrefix(account);
+    let removed = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    for (const key of [...this.inFlight.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.inFlight.delete(key);
+      }
+    }
+    // Requests still in flight for any account are not stored; they are fetched again next time
+    this.generation++;
+    this.save();
+    info('Cleared cached responses of an account', { entries: removed });
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private store(key: string, value: unknown): void {
+    const now = Date.now();
+    this.entries.set(key, { value, storedAt: now, expiresAt: now + this.options.ttlMs });
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+    this.save();
+  }
+
+  /**
+   * Load persisted entries on first use (persistent mode only)
+   */
+  private ensureLoaded(): void {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+    if (!this.options.persist) {
+      return;
+    }
+
+    try {
+      const cachePath = getConfigFilePath(CACHE_FILE_NAME);
+      if (!fs.existsSync(cachePath)) {
+        return;
+      }
+      const data: PersistedCache = JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+      if (data?.version !== 1 || !Array.isArray(data.entries)) {
+        return;
+      }
+
+      const now = Date.now();
+      for (const [key, entry] of data.entries) {
+        if (entry?.expiresAt > now) {
+          this.entries.set(key, entry);
+        }
+      }
+      info('Loaded response cache from disk', { entries: this.entries.size });
+    } catch (err) {
+      logError('Failed to load response cache', err);
+    }
+  }
+
+  /**
+   * Write unexpired entries to disk (persistent mode only)
+   * The file contains Microsoft 365 content, so it is only readable by the current user
+   */
+  private save(): void {
+    if (!this.options.persist) {
+      return;
+    }
+
+    try {
+      const now = Date.now();
+      const data: PersistedCache = {
+        version: 1,
+        entries: [...this.entries].filter(([, entry]) => entry.expiresAt > now),
+      };
+      const cachePath = getConfigFilePath(CACHE_FILE_NAME);
+      const tempPath = `${cachePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(data), { encoding: 'utf-8', mode: 0o600 });
+      fs.renameSync(tempPath, cachePath);
+    } catch (err) {
+      // Non-fatal: the cache still works in memory
+      logError('Failed to save response cache', err);
+    }
+  }
+}
+
+/**
+ * Mark a tool result that did not come straight from Graph
+ * Fresh results are returned unchanged.
+ */
+export function withCacheStatus<T extends object>(
+  result: CacheResult<T>
+): T | (T & { cache: CacheInfo }) {
+  if (result.status === 'miss') {
+    return result.value;
+  }
+  return {
+    ...result.value,
+    cache: {
+      status: result.status,
+      ...(result.ageMs !== undefined ? { ageSeconds: Math.round(result.ageMs / 1000) } : {}),
+    },
+  };
+}
+
+let responseCache: ResponseCache | null = null;
+
+/**
+ * Get the shared response cache, configured from environment variables
+ */
+export function getResponseCache(): ResponseCache {
+  if (!responseCache) {
+    responseCache = new ResponseCache(loadResponseCacheOptionsFromEnv());
+  }
+  return responseCache;
+}
+
+/**
+ * Clear the shared response cache (called on logout)
+ */
+export function clearResponseCache(): void {
+  getResponseCache().clear();
+}
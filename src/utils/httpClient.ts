@@ -1,21 +1,255 @@
-import { APIError } from './errors.js';
-import { info, error as logError, debug } from './logger.js';
+import { APIError, ValidationError } from './errors.js';
+import { info, warn, error as logError, debug } from './logger.js';
+import { getCloudEndpoints } from '../auth/cloud.js';
+import {
+  RETRYABLE_STATUS_CODES,
+  RetryPolicy,
+  CircuitBreaker,
+  loadRetryPolicyFromEnv,
+  loadCircuitBreakerOptionsFromEnv,
+  parseRetryAfter,
+  computeBackoffDelay,
+  sleep,
+} from './retry.js';
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+/**
+ * Options for a single Graph call
+ */
+export interface GraphRequestOptions {
+  /**
+   * Whether sending the request twice is harmless (default: true for GET, PUT
+   * and DELETE, false for POST). Requests that are not idempotent are only
+   * retried when Graph rejected them for throttling (429 or Retry-After), so a
+   * retry never creates a second conversation or chat turn.
+   */
+  idempotent?: boolean;
+}
+
+/**
+ * Record of a failed attempt, included in error details
+ */
+interface RetryAttempt {
+  attempt: number;
+  status?: number;
+  reason: string;
+  delayMs?: number;
+}
+
+// Shared circuit breaker for all Graph calls (loaded lazily from the environment)
+let graphCircuitBreaker: CircuitBreaker | null = null;
+
+/**
+ * Get the circuit breaker shared by all Graph calls
+ * @throws ConfigurationError if a GRAPH_CIRCUIT_BREAKER_* variable is invalid
+ */
+export function getGraphCircuitBreaker(): CircuitBreaker {
+  if (!graphCircuitBreaker) {
+    graphCircuitBreaker = new CircuitBreaker('microsoft-graph', loadCircuitBreakerOptionsFromEnv());
+  }
+  return graphCircuitBreaker;
+}
+
+// Retry policy (loaded lazily from the environment)
+let retryPolicy: RetryPolicy | null = null;
+
+function getRetryPolicy(): RetryPolicy {
+  if (!retryPolicy) {
+    retryPolicy = loadRetryPolicyFromEnv();
+  }
+  return retryPolicy;
+}
+
+/**
+ * Build an APIError from a non-successful Graph response
+ */
+async function buildApiError(response: Response): Promise<APIError> {
+  const errorBody = await response.text();
+  let errorMessage = `Graph API error: ${response.status} ${response.statusText}`;
+  let errorDetails: any = { status: response.status, statusText: response.statusText };
+
+  // Try to parse error body as JSON
+  try {
+    const errorJson = JSON.parse(errorBody);
+    if (errorJson.error) {
+      errorMessage = errorJson.error.message || errorMessage;
+      errorDetails = {
+        ...errorDetails,
+        code: errorJson.error.code,
+        message: errorJson.error.message,
+        details: errorJson.error.details,
+      };
+    }
+  } catch {
+    // Error body is not JSON, use as-is
+    errorDetails.body = errorBody;
+  }
+
+  return new APIError(errorMessage, response.status, errorDetails);
+}
+
+/**
+ * Attach retry history and circuit breaker state to an error
+ */
+function withResilienceDetails(error: APIError, attempts: RetryAttempt[], totalDelayMs: number): APIError {
+  return new APIError(error.message, error.statusCode, {
+    ...error.details,
+    retry: {
+      attempts: attempts.length,
+      totalDelayMs,
+      history: attempts,
+    },
+    circuitBreaker: getGraphCircuitBreaker().getSnapshot(),
+  });
+}
+
+/**
+ * Send a request to Microsoft Graph with throttling-aware retries
+ *
+ * Retries 429/503/504 responses and network failures, honoring Retry-After
+ * and otherwise using exponential backoff with jitter, within the per-call
+ * retry budget. Requests that are not idempotent are only retried on 429 or
+ * when Graph sent Retry-After, since Graph did not process them. All calls
+ * share a circuit breaker that fails fast while Graph is unhealthy.
+ *
+ * @returns The successful (2xx) response
+ */
+async function sendGraphRequest(
+  url: string,
+  method: HttpMethod,
+  init: { headers: Record<string, string>; body?: string },
+  endpoint: string,
+  options: GraphRequestOptions
+): Promise<Response> {
+  const idempotent = options.idempotent ?? method !== 'POST';
+  const policy = getRetryPolicy();
+  const circuitBreaker = getGraphCircuitBreaker();
+  const attempts: RetryAttempt[] = [];
+  let totalDelayMs = 0;
+  let lastFailure: APIError | null = null;
+
+  for (let attempt = 1; ; attempt++) {
+    if (!circuitBreaker.allowRequest()) {
+      const snapshot = circuitBreaker.getSnapshot();
+      warn('Circuit breaker open - failing fast', { method, endpoint, ...snapshot });
+      // The breaker opened while this call was retrying - report the real failure
+      if (lastFailure) {
+        throw withResilienceDetails(lastFailure, attempts, totalDelayMs);
+      }
+      throw withResilienceDetails(
+        new APIError(
+          `Microsoft Graph is currently unavailable (circuit breaker open). Retry in ${Math.ceil((snapshot.retryInMs ?? 0) / 1000)}s.`,
+          undefined,
+          { endpoint, method }
+        ),
+        attempts,
+        totalDelayMs
+      );
+    }
+
+    let failure: APIError;
+    let retryAfterMs: number | undefined;
+    let throttled = false;
+
+    try {
+      const response = await fetch(url, { method, ...init });
+
+      // Log response status
+      debug(`Response status: ${response.status} ${response.statusText}`);
+
+      if (response.ok) {
+        circuitBreaker.recordSuccess();
+        return response;
+      }
+
+      failure = await buildApiError(response);
+
+      if (!RETRYABLE_STATUS_CODES.includes(response.status)) {
+        // Graph answered - it is healthy even though the request failed
+        circuitBreaker.recordSuccess();
+        logError(`Graph API call failed: ${failure.message}`, failure.details);
+        throw withResilienceDetails(failure, attempts, totalDelayMs);
+      }
+
+      retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+      throttled = response.status === 429 || retryAfterMs !== undefined;
+    } catch (error) {
+      if (error instanceof APIError) {
+        throw error;
+      }
+
+      // Handle network errors or other failures
+      logError(`Network or fetch error calling Graph API: ${method} ${endpoint}`, error);
+      failure = new APIError(
+        `Failed to call Graph API: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        undefined, // No status code for network errors
+        { endpoint, method, originalError: error instanceof Error ? error.message : String(error) }
+      );
+    }
+
+    circuitBreaker.recordFailure();
+    lastFailure = failure;
+
+    const retry = attempt - 1;
+    const delayMs = retryAfterMs ?? computeBackoffDelay(retry, policy);
+    const record: RetryAttempt = {
+      attempt,
+      status: failure.statusCode,
+      reason: failure.message,
+    };
+    attempts.push(record);
+
+    if (!idempotent && !throttled) {
+      // The request may have been processed - sending it again could repeat its effect
+      logError(`Graph API call failed and is not safe to retry: ${failure.message}`, undefined, {
+        method,
+        endpoint,
+        status: failure.statusCode,
+      });
+      throw withResilienceDetails(failure, attempts, totalDelayMs);
+    }
+
+    if (retry >= policy.maxRetries || totalDelayMs + delayMs > policy.retryBudgetMs) {
+      logError(`Graph API call failed after ${attempt} attempt(s): ${failure.message}`, undefined, {
+        method,
+        endpoint,
+        status: failure.statusCode,
+      });
+      throw withResilienceDetails(failure, attempts, totalDelayMs);
+    }
+
+    record.delayMs = delayMs;
+    totalDelayMs += delayMs;
+    warn(`Graph API call failed - retrying in ${delayMs}ms`, {
+      method,
+      endpoint,
+      attempt,
+      status: failure.statusCode,
+      retryAfterHeader: retryAfterMs !== undefined,
+    });
+    await sleep(delayMs);
+  }
+}
 
 /**
  * Call Microsoft Graph REST API
+ * The Graph host follows the configured cloud (see auth/cloud.ts)
  * @param endpoint - API endpoint path (e.g., '/beta/copilot/retrieval')
  * @param method - HTTP method
  * @param body - Request body (will be JSON stringified)
  * @param accessToken - Azure AD access token
+ * @param options - Request options (e.g. whether a POST may be retried)
  * @returns Parsed JSON response
  */
 export async function callGraphApi(
   endpoint: string,
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+  method: HttpMethod,
   body: any | null,
-  accessToken: string
+  accessToken: string,
+  options: GraphRequestOptions = {}
 ): Promise<any> {
-  const url = `https://graph.microsoft.com${endpoint}`;
+  const url = `${getCloudEndpoints().graphBaseUrl}${endpoint}`;
 
   debug(`Making ${method} request to ${url}`, {
     endpoint,
@@ -23,69 +257,190 @@ export async function callGraphApi(
     bodyKeys: body ? Object.keys(body) : []
   });
 
-  try {
-    const response = await fetch(url, {
-      method,
+  const response = await sendGraphRequest(
+    url,
+    method,
+    {
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'Content-Type': 'application/json',
         'Accept': 'application/json',
       },
       body: body ? JSON.stringify(body) : undefined,
-    });
-
-    // Log response status
-    debug(`Response status: ${response.status} ${response.statusText}`);
-
-    // Handle error responses
-    if (!response.ok) {
-      const errorBody = await response.text();
-      let errorMessage = `Graph API error: ${response.status} ${response.statusText}`;
-      let errorDetails: any = { status: response.status, statusText: response.statusText };
-
-      // Try to parse error body as JSON
-      try {
-        const errorJson = JSON.parse(errorBody);
-        if (errorJson.error) {
-          errorMessage = errorJson.error.message || errorMessage;
-          errorDetails = {
-            ...errorDetails,
-            code: errorJson.error.code,
-            message: errorJson.error.message,
-            details: errorJson.error.details,
-          };
-        }
-      } catch {
-        // Error body is not JSON, use as-is
-        errorDetails.body = errorBody;
-      }
-
-      logError(`Graph API call failed: ${errorMessage}`, errorDetails);
-
-      throw new APIError(
-        errorMessage,
-        response.status,
-        errorDetails
-      );
-    }
+    },
+    endpoint,
+    options
+  );
 
-    // Parse successful response
+  // Parse successful response
+  try {
     const responseData = await response.json();
     info(`Graph API call succeeded: ${method} ${endpoint}`);
 
     return responseData;
   } catch (error) {
-    // If it's already an APIError, rethrow
-    if (error instanceof APIError) {
+    logError(`Failed to parse Graph API response: ${method} ${endpoint}`, error);
+    throw new APIError(
+      `Failed to parse Graph API response: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      response.status,
+      { endpoint, method }
+    );
+  }
+}
+
+/**
+ * Call a Microsoft Graph endpoint that streams server-sent events
+ * Retries apply to establishing the stream; each event's data is parsed as
+ * JSON and passed to onEvent as it arrives.
+ *
+ * @param endpoint - API endpoint path (e.g., '/beta/copilot/conversations/{id}/chatOverStream')
+ * @param body - Request body (will be JSON stringified)
+ * @param accessToken - Azure AD access token
+ * @param onEvent - Called with the parsed data of every event
+ * @param options - Request options (e.g. whether the request may be retried)
+ * @returns Number of events received
+ */
+export async function streamGraphApi(
+  endpoint: string,
+  body: any,
+  accessToken: string,
+  onEvent: (data: any) => void,
+  options: GraphRequestOptions = {}
+): Promise<number> {
+  const url = `${getCloudEndpoints().graphBaseUrl}${endpoint}`;
+
+  debug(`Making streaming POST request to ${url}`, {
+    endpoint,
+    bodyKeys: body ? Object.keys(body) : []
+  });
+
+  const response = await sendGraphRequest(
+    url,
+    'POST',
+    {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+      },
+      body: JSON.stringify(body),
+    },
+    endpoint,
+    options
+  );
+
+  if (!response.body) {
+    throw new APIError('Graph API returned an empty stream', response.status, { endpoint });
+  }
+
+  let eventCount = 0;
+  let buffer = '';
+  let dataLines: string[] = [];
+
+  // Dispatch the event collected so far (events end with a blank line)
+  const dispatch = () => {
+    if (dataLines.length === 0) {
+      return;
+    }
+    const data = dataLines.join('\n');
+    dataLines = [];
+
+    try {
+      onEvent(JSON.parse(data));
+      eventCount++;
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        debug('Ignoring non-JSON stream event', { endpoint, length: data.length });
+        return;
+      }
       throw error;
     }
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+    // Other fields (event:, id:, retry:) and comments are not used by Graph
+  };
+
+  try {
+    const decoder = new TextDecoder();
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true });
 
-    // Handle network errors or other failures
-    logError(`Network or fetch error calling Graph API: ${method} ${endpoint}`, error);
+      let newline: number;
+      while ((newline = buffer.search(/\r?\n/)) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(buffer[newline] === '\r' ? newline + 2 : newline + 1);
+        processLine(line);
+      }
+    }
+    buffer += decoder.decode();
+  } catch (error) {
+    logError(`Stream interrupted: POST ${endpoint}`, error);
     throw new APIError(
-      `Failed to call Graph API: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      undefined, // No status code for network errors
-      { endpoint, method, originalError: error }
+      `Graph API stream interrupted: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      response.status,
+      { endpoint, eventsReceived: eventCount }
     );
   }
+
+  // Flush a final event that was not followed by a blank line
+  if (buffer) {
+    processLine(buffer);
+  }
+  dispatch();
+
+  info(`Graph API stream completed: POST ${endpoint}`, { events: eventCount });
+
+  return eventCount;
+}
+
+/**
+ * Convert an '@odata.nextLink' URL into an endpoint path for callGraphApi
+ * Only links pointing at the configured Graph host (or the Graph resource of
+ * the active cloud) are accepted, so the access token is never sent elsewhere,
+ * and only for the endpoint that returned them, so a crafted link can't read
+ * other Graph resources with the user's token.
+ *
+ * @param nextLink - Absolute URL returned in '@odata.nextLink'
+ * @param endpoint - Path of the paged endpoint after the Graph base (e.g. '/beta/copilot/search')
+ * @param paramName - Parameter name reported in validation errors
+ * @returns Endpoint path including the query string (e.g. '/beta/copilot/search?$skiptoken=...')
+ */
+export function toGraphEndpoint(nextLink: string, endpoint: string, paramName: string = 'nextLink'): string {
+  const { graphBaseUrl, scopeResource } = getCloudEndpoints();
+
+  let url: URL;
+  try {
+    url = new URL(nextLink);
+  } catch {
+    throw new ValidationError(`Parameter '${paramName}' must be an absolute URL returned by Microsoft Graph`, {
+      paramName,
+    });
+  }
+
+  for (const base of [graphBaseUrl, scopeResource]) {
+    const baseUrl = new URL(base);
+    const basePath = baseUrl.pathname.replace(/\/+$/, '');
+    if (url.origin === baseUrl.origin && url.pathname.startsWith(`${basePath}/`)) {
+      const path = url.pathname.slice(basePath.length);
+      if (path.replace(/\/+$/, '').toLowerCase() !== endpoint.toLowerCase()) {
+        throw new ValidationError(`Parameter '${paramName}' must be a next page link of ${endpoint}`, {
+          paramName,
+          path,
+        });
+      }
+      return `${path}${url.search}`;
+    }
+  }
+
+  throw new ValidationError(`Parameter '${paramName}' does not point at the Microsoft Graph endpoint`, {
+    paramName,
+    host: url.host,
+    expectedHost: new URL(graphBaseUrl).host,
+  });
 }
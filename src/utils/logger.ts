@@ -17,6 +17,10 @@ class Logger {
     this.logLevel = level;
   }
 
+  isDebugEnabled(): boolean {
+    return this.logLevel <= LogLevel.DEBUG;
+  }
+
   private formatMessage(level: string, message: string, context?: Record<string, unknown>): string {
     const timestamp = new Date().toISOString();
     const contextStr = context ? ` ${JSON.stringify(context)}` : '';
@@ -65,3 +69,4 @@ export const info = logger.info.bind(logger);
 export const warn = logger.warn.bind(logger);
 export const error = logger.error.bind(logger);
 export const setLogLevel = logger.setLogLevel.bind(logger);
+export const isDebugEnabled = logger.isDebugEnabled.bind(logger);
@@ -0,0 +1,196 @@
+/**
+ * Markdown formatters for tool results
+ * Pure functions from tool results to Markdown, shared by the retrieval,
+ * search and chat tools (format: "markdown").
+ */
+
+import type { RetrievalResponse } from '../tools/retrieval.js';
+import type { SearchResponse } from '../tools/search.js';
+import type { ChatAnswer } from '../tools/chat.js';
+import type { CacheInfo } from './cache.js';
+
+/**
+ * Cache marker added to results served from the response cache
+ */
+interface CacheMarker {
+  cache?: CacheInfo;
+}
+
+const DATA_SOURCE_LABELS: Record<string, string> = {
+  sharePoint: 'SharePoint',
+  oneDriveBusiness: 'OneDrive',
+  externalItem: 'Copilot connector',
+};
+
+/**
+ * Escape text used inside a link label
+ */
+export function escapeLinkText(text: string): string {
+  return text.replace(/([\\[\]])/g, '\\$1').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Format a URL as a Markdown link target (spaces and parentheses would end the link)
+ */
+export function formatLinkTarget(url: string): string {
+  return url.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
+
+/**
+ * Format a Markdown link
+ */
+export function formatLink(label: string, url: string): string {
+  return `[${escapeLinkText(label) || url}](${formatLinkTarget(url)})`;
+}
+
+/**
+ * Quote text as a Markdown blockquote
+ */
+export function quote(text: string): string {
+  return text
+    .trim()
+    .split(/\r?\n/)
+    .map(line => (line.trim() ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+/**
+ * Derive a display name from a document URL (last path segment)
+ */
+export function fileNameFromUrl(url: string): string {
+  try {
+    const segments = new URL(url).pathname.split('/').filter(Boolean);
+    return decodeURIComponent(segments[segments.length - 1] || url);
+  } catch {
+    return url;
+  }
+}
+
+function formatMetadataValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatMetadataValue).filter(Boolean).join(', ');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function formatCacheNote(result: CacheMarker): string | null {
+  if (!result.cache) {
+    return null;
+  }
+  const age = result.cache.ageSeconds !== undefined ? `, ${result.cache.ageSeconds}s old` : '';
+  return `_Served from cache (${result.cache.status}${age})_`;
+}
+
+/**
+ * Format retrieval results: one section per document with its metadata,
+ * link and quoted extracts
+ */
+export function formatRetrievalMarkdown(result: RetrievalResponse & CacheMarker): string {
+  const hits = result.retrievalHits || [];
+  const lines: string[] = [`# Retrieval results (${hits.length} ${hits.length === 1 ? 'document' : 'documents'})`];
+
+  const cacheNote = formatCacheNote(result);
+  if (cacheNote) {
+    lines.push('', cacheNote);
+  }
+  if (hits.length === 0) {
+    lines.push('', 'No matching content found.');
+    return lines.join('\n');
+  }
+
+  hits.forEach((hit, index) => {
+    const { title, author, ...metadata } = hit.resourceMetadata || {};
+    const heading = typeof title === 'string' && title.trim() ? title.trim() : fileNameFromUrl(hit.webUrl);
+    lines.push('', `## ${index + 1}. ${heading.replace(/\s+/g, ' ')}`, '');
+
+    const details = [
+      author ? `**Author:** ${formatMetadataValue(author)}` : null,
+      hit.dataSource ? `**Source:** ${DATA_SOURCE_LABELS[hit.dataSource] || hit.dataSource}` : null,
+      hit.resourceType ? `**Type:** ${hit.resourceType}` : null,
+      ...Object.entries(metadata)
+        .map(([key, value]) => [key, formatMetadataValue(value)])
+        .filter(([, value]) => value)
+        .map(([key, value]) => `**${key}:** ${value}`),
+    ].filter(Boolean);
+    if (details.length > 0) {
+      lines.push(details.join(' · '), '');
+    }
+    lines.push(`**Link:** ${formatLink(fileNameFromUrl(hit.webUrl), hit.webUrl)}`);
+
+    for (const extract of hit.extracts || []) {
+      lines.push('', quote(extract.text), `> _Relevance: ${extract.relevanceScore.toFixed(2)}_`);
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Format search results as a numbered, linked list with previews
+ */
+export function formatSearchMarkdown(result: SearchResponse & CacheMarker): string {
+  const hits = result.searchHits || [];
+  const lines: string[] = [
+    `# Search results (${hits.length} shown${result.totalCount !== undefined ? ` of ${result.totalCount}` : ''})`,
+  ];
+
+  const cacheNote = formatCacheNote(result);
+  if (cacheNote) {
+    lines.push('', cacheNote);
+  }
+  if (hits.length === 0) {
+    lines.push('', 'No documents found.');
+  } else {
+    lines.push('');
+    hits.forEach((hit, index) => {
+      const type = hit.resourceType ? ` (${hit.resourceType})` : '';
+      lines.push(`${index + 1}. ${formatLink(fileNameFromUrl(hit.webUrl), hit.webUrl)}${type}`);
+      const preview = hit.preview?.replace(/\s+/g, ' ').trim();
+      if (preview) {
+        lines.push(`   ${preview}`);
+      }
+    });
+  }
+
+  const nextLink = result['@odata.nextLink'];
+  if (nextLink) {
+    lines.push('', `More results are available. Pass this as nextLink to continue: \`${nextLink}\``);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a chat answer: the reply, its citations, rendered adaptive cards and notes
+ */
+export function formatChatMarkdown(answer: ChatAnswer): string {
+  const lines: string[] = [answer.reply.trim() || '_Copilot returned no text._'];
+
+  if (answer.adaptiveCards && answer.adaptiveCards.length > 0) {
+    for (const card of answer.adaptiveCards) {
+      lines.push('', '---', '', card);
+    }
+  }
+
+  if (answer.citations.length > 0) {
+    lines.push('', '**Sources**', '');
+    for (const citation of answer.citations) {
+      lines.push(`${citation.index}. ${formatLink(citation.title, citation.url)}`);
+    }
+  }
+
+  const notes = [
+    answer.sensitivityLabel ? `**Sensitivity:** ${answer.sensitivityLabel}` : null,
+    answer.conversationRecreated ? `**Note:** ${answer.conversationRecreated.reason}` : null,
+    `_Conversation ${answer.conversationId}, turn ${answer.turnCount}_`,
+  ].filter(Boolean);
+  lines.push('', notes.map(note => `> ${note}`).join('\n>\n'));
+
+  return lines.join('\n');
+}
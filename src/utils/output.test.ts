@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { ValidationError } from './errors.js';
+import { cutAtSentence, formatToolOutput, resolveOutputBudget, resolveOutputFormat } from './output.js';
+
+describe('cutAtSentence', () => {
+  it('returns short text unchanged', () => {
+    expect(cutAtSentence('Short text.', 50)).toBe('Short text.');
+  });
+
+  it('cuts at the last sentence end that fits', () => {
+    const text = 'The first sentence is here. The second one follows. The third sentence is much too long to fit.';
+    expect(cutAtSentence(text, 60)).toBe('The first sentence is here. The second one follows.…');
+  });
+
+  it('recognizes full-width sentence ends', () => {
+    expect(cutAtSentence('第一句话！ 第二句话很长很长很长很长很长很长', 12)).toBe('第一句话！…');
+  });
+
+  it('falls back to a word boundary when no sentence ends early enough', () => {
+    const text = 'one two three four five six seven eight nine ten eleven twelve';
+    const cut = cutAtSentence(text, 30);
+    expect(cut).toBe('one two three four five six…');
+    expect(cut.length).toBeLessThanOrEqual(30);
+  });
+
+  it('cuts inside a word when there is no usable boundary', () => {
+    expect(cutAtSentence('a'.repeat(100), 10)).toBe(`${'a'.repeat(9)}…`);
+  });
+});
+
+describe('resolveOutputBudget', () => {
+  it('uses the tool default without arguments', () => {
+    expect(resolveOutputBudget('m365copilotsearch', {})).toBe(40_000);
+    expect(resolveOutputBudget('m365copilotretrieval', undefined)).toBe(80_000);
+  });
+
+  it('converts tokens to characters and prefers the smaller budget', () => {
+    expect(resolveOutputBudget('m365copilotsearch', { maxOutputTokens: 1000 })).toBe(4000);
+    expect(resolveOutputBudget('m365copilotsearch', { maxOutputTokens: 1000, maxOutputChars: 2000 })).toBe(2000);
+  });
+
+  it('rejects budgets out of range', () => {
+    expect(() => resolveOutputBudget('m365copilotsearch', { maxOutputChars: 10 })).toThrow(ValidationError);
+    expect(() => resolveOutputBudget('m365copilotsearch', { maxOutputTokens: 1.5 })).toThrow(ValidationError);
+  });
+});
+
+describe('resolveOutputFormat', () => {
+  it('defaults to JSON and rejects unknown formats', () => {
+    expect(resolveOutputFormat({})).toBe('json');
+    expect(resolveOutputFormat({ format: 'markdown' })).toBe('markdown');
+    expect(() => resolveOutputFormat({ format: 'html' })).toThrow(ValidationError);
+  });
+});
+
+describe('formatToolOutput', () => {
+  const value = { title: 'Report', items: Array.from({ length: 40 }, (_, i) => ({ id: i, text: `Item number ${i}. `.repeat(20) })) };
+
+  it('pretty-prints results that fit', () => {
+    const output = formatToolOutput({ a: 1 }, 1000);
+    expect(output.text).toBe(JSON.stringify({ a: 1 }, null, 2));
+    expect(output.value).toEqual({ a: 1 });
+  });
+
+  it('compacts results when only compact JSON fits', () => {
+    const small = { list: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10] };
+    const compact = JSON.stringify(small);
+    const output = formatToolOutput(small, compact.length);
+    expect(output.text).toBe(compact);
+    expect(output.value).not.toHaveProperty('truncation');
+  });
+
+  it('trims results to the budget and reports what was left out', () => {
+    const output = formatToolOutput(value, 2000);
+    expect(output.text.length).toBeLessThanOrEqual(2000);
+    expect(JSON.parse(output.text)).toEqual(output.value);
+
+    const { truncation } = output.value as { truncation: { budgetChars: number; omitted: Record<string, number> } };
+    expect(truncation.budgetChars).toBe(2000);
+    expect(truncation.omitted.itemsOmitted).toBeGreaterThan(0);
+  });
+
+  it('does not change the value it was given', () => {
+    const before = JSON.stringify(value);
+    formatToolOutput(value, 2000);
+    expect(JSON.stringify(value)).toBe(before);
+  });
+
+  it('uses the tool trimmer before the generic one', () => {
+    const output = formatToolOutput(value, 2000, {
+      trimmer: (candidate, fits) => {
+        const items = [...candidate.items];
+        let dropped = 0;
+        while (!fits({ ...candidate, items }) && items.length > 0) {
+          items.pop();
+          dropped++;
+        }
+        return { value: { ...candidate, items }, omitted: { customDropped: dropped } };
+      },
+    });
+    const { truncation } = output.value as { truncation: { omitted: Record<string, number> } };
+    expect(truncation.omitted.customDropped).toBeGreaterThan(0);
+    expect(truncation.omitted.itemsOmitted).toBeUndefined();
+  });
+
+  it('renders Markdown with a truncation note when asked to', () => {
+    const toMarkdown = (v: typeof value) => v.items.map(item => `- ${item.text}`).join('\n');
+    expect(formatToolOutput({ ...value, items: value.items.slice(0, 1) }, 5000, { format: 'markdown', toMarkdown }).text)
+      .toBe(`- ${value.items[0].text}`);
+
+    const trimmed = formatToolOutput(value, 2000, { format: 'markdown', toMarkdown });
+    expect(trimmed.text.length).toBeLessThanOrEqual(2000);
+    expect(trimmed.value).toHaveProperty('truncation');
+  });
+});
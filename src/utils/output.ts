@@ -0,0 +1,357 @@
+/**
+ * Output formatting and budgeting for tool results
+ * Results are returned as JSON or Markdown. MCP clients limit how much text a
+ * tool result may contain: JSON results are pretty-printed when they fit the
+ * budget, compacted when only compact JSON fits, and trimmed otherwise.
+ * Trimmed results say what was left out ('truncation' entry or Markdown note).
+ */
+
+import { envInteger } from './retry.js';
+import { inRange, optionalInteger, requireEnum } from './validation.js';
+import { debug } from './logger.js';
+import { toJsonSchema } from './schema.js';
+
+/**
+ * Rough characters-per-token ratio used to estimate token counts
+ */
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * Smallest budget a client may ask for, in characters
+ */
+export const MIN_OUTPUT_CHARS = 500;
+
+/**
+ * Largest budget a client may ask for, in characters
+ */
+export const MAX_OUTPUT_CHARS = 1_000_000;
+
+/**
+ * Default budgets per tool, in estimated tokens
+ */
+const DEFAULT_TOOL_BUDGET_TOKENS: Record<string, number> = {
+  m365copilotretrieval: 20_000,
+  m365copilotsearch: 10_000,
+  m365copilotchat: 20_000,
+};
+
+const FALLBACK_BUDGET_TOKENS = 20_000;
+
+/**
+ * Output formats supported by the retrieval, search and chat tools
+ */
+export type OutputFormat = 'json' | 'markdown';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['json', 'markdown'];
+
+/**
+ * Strings are not shortened below this length by the generic trimmer
+ */
+const MIN_STRING_LENGTH = 100;
+
+/**
+ * Input properties that let clients choose the format and size of a tool result
+ */
+export const OUTPUT_PROPERTIES = {
+  format: {
+    type: 'string',
+    enum: [...OUTPUT_FORMATS],
+    description: 'Optional output format: "json" (default) or "markdown" for readable sections, lists and links',
+  },
+  maxOutputTokens: {
+    type: 'integer',
+    minimum: Math.ceil(MIN_OUTPUT_CHARS / CHARS_PER_TOKEN),
+    maximum: Math.floor(MAX_OUTPUT_CHARS / CHARS_PER_TOKEN),
+    description: `Optional: maximum size of the result in estimated tokens (about ${CHARS_PER_TOKEN} characters each). Larger results are trimmed`,
+  },
+  maxOutputChars: {
+    type: 'integer',
+    minimum: MIN_OUTPUT_CHARS,
+    maximum: MAX_OUTPUT_CHARS,
+    description: 'Optional: maximum size of the result in characters. Larger results are trimmed',
+  },
+} as const;
+
+export interface Truncation {
+  budgetChars: number;
+  omitted: Record<string, number>;
+  note: string;
+}
+
+export const TRUNCATION_SCHEMA = toJsonSchema<Truncation>({
+  type: 'object',
+  description: 'Present when the result was trimmed to fit the output budget',
+  properties: {
+    budgetChars: { type: 'integer' },
+    omitted: { type: 'object', properties: {}, additionalProperties: true },
+    note: { type: 'string' },
+  },
+});
+
+/**
+ * Tool-specific trimming: shrink a value until fits() accepts it
+ * Returns the trimmed value and counts of what was omitted.
+ */
+export type Trimmer<T> = (value: T, fits: (candidate: unknown) => boolean) => {
+  value: T;
+  omitted: Record<string, number>;
+};
+
+/**
+ * Get the default budget of a tool in characters
+ * M365_OUTPUT_MAX_TOKENS overrides the defaults for all tools
+ */
+export function getDefaultOutputBudget(toolName: string): number {
+  const tokens = process.env.M365_OUTPUT_MAX_TOKENS
+    ? envInteger('M365_OUTPUT_MAX_TOKENS', FALLBACK_BUDGET_TOKENS)
+    : DEFAULT_TOOL_BUDGET_TOKENS[toolName] ?? FALLBACK_BUDGET_TOKENS;
+  return Math.max(MIN_OUTPUT_CHARS, tokens * CHARS_PER_TOKEN);
+}
+
+/**
+ * Resolve the budget of a tool call from its maxOutputTokens/maxOutputChars arguments
+ * When both are given, the smaller one wins.
+ */
+export function resolveOutputBudget(toolName: string, args: Record<string, unknown> | undefined): number {
+  const tokens = optionalInteger(args?.maxOutputTokens, 'maxOutputTokens');
+  const chars = optionalInteger(args?.maxOutputChars, 'maxOutputChars');
+  const { maxOutputTokens } = OUTPUT_PROPERTIES;
+
+  const budgets: number[] = [];
+  if (tokens !== undefined) {
+    budgets.push(inRange(tokens, maxOutputTokens.minimum, maxOutputTokens.maximum, 'maxOutputTokens') * CHARS_PER_TOKEN);
+  }
+  if (chars !== undefined) {
+    budgets.push(inRange(chars, MIN_OUTPUT_CHARS, MAX_OUTPUT_CHARS, 'maxOutputChars'));
+  }
+
+  return budgets.length > 0 ? Math.min(...budgets) : getDefaultOutputBudget(toolName);
+}
+
+/**
+ * Resolve the output format of a tool call from its format argument
+ */
+export function resolveOutputFormat(args: Record<string, unknown> | undefined): OutputFormat {
+  return args?.format === undefined || args?.format === null
+    ? 'json'
+    : requireEnum(args.format, 'format', OUTPUT_FORMATS);
+}
+
+/**
+ * Cut text to at most maxChars, preferring the end of a sentence
+ * Falls back to a word boundary when no sentence ends early enough.
+ */
+export function cutAtSentence(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+  const limit = Math.max(0, maxChars - 1);
+  const head = text.slice(0, limit);
+
+  let sentenceEnd = -1;
+  const pattern = /[.!?。！？](?=\s|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(head)) !== null) {
+    sentenceEnd = match.index + 1;
+  }
+  if (sentenceEnd >= limit / 3) {
+    return `${head.slice(0, sentenceEnd)}…`;
+  }
+
+  const wordEnd = head.lastIndexOf(' ');
+  return `${(wordEnd >= limit / 2 ? head.slice(0, wordEnd) : head).trimEnd()}…`;
+}
+
+/**
+ * Generic trimmer: shorten the longest strings, then drop trailing array items
+ */
+function trimGeneric(value: unknown, fits: (candidate: unknown) => boolean): { value: unknown; omitted: Record<string, number> } {
+  let stringsShortened = 0;
+  let itemsOmitted = 0;
+
+  const shorten = (node: unknown, maxLength: number): unknown => {
+    if (typeof node === 'string') {
+      if (node.length > maxLength) {
+        stringsShortened++;
+        return cutAtSentence(node, maxLength);
+      }
+      return node;
+    }
+    if (Array.isArray(node)) {
+      return node.map(item => shorten(item, maxLength));
+    }
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).map(([key, item]) => [key, shorten(item, maxLength)]));
+    }
+    return node;
+  };
+
+  // Find the longest string length that lets the result fit (strings shorter than 100 don't help)
+  let current = value;
+  let longest = 0;
+  JSON.stringify(value, (key, item) => {
+    if (typeof item === 'string') {
+      longest = Math.max(longest, item.length);
+    }
+    return item;
+  });
+  let low = MIN_STRING_LENGTH;
+  let high = longest - 1;
+  let best: unknown = null;
+  let bestShortened = 0;
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    stringsShortened = 0;
+    const candidate = shorten(value, middle);
+    if (fits(candidate)) {
+      best = candidate;
+      bestShortened = stringsShortened;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  if (best) {
+    current = best;
+    stringsShortened = bestShortened;
+  } else if (longest > MIN_STRING_LENGTH) {
+    stringsShortened = 0;
+    current = shorten(value, MIN_STRING_LENGTH);
+  }
+
+  // Then drop items from the end of the largest arrays
+  const dropFromLargestArray = (node: unknown): boolean => {
+    let largest: unknown[] | null = null;
+    const visit = (item: unknown) => {
+      if (Array.isArray(item)) {
+        if (item.length > 0 && (!largest || JSON.stringify(item).length > JSON.stringify(largest).length)) {
+          largest = item;
+        }
+        item.forEach(visit);
+      } else if (item && typeof item === 'object') {
+        Object.values(item).forEach(visit);
+      }
+    };
+    visit(node);
+    if (!largest) {
+      return false;
+    }
+    (largest as unknown[]).pop();
+    itemsOmitted++;
+    return true;
+  };
+  while (!fits(current) && dropFromLargestArray(current)) {
+    // keep dropping
+  }
+
+  const omitted: Record<string, number> = {};
+  if (stringsShortened > 0) {
+    omitted.stringsShortened = stringsShortened;
+  }
+  if (itemsOmitted > 0) {
+    omitted.itemsOmitted = itemsOmitted;
+  }
+  return { value: current, omitted };
+}
+
+/**
+ * Options for formatting a tool result
+ */
+export interface OutputOptions<T> {
+  /** Output format (default: json) */
+  format?: OutputFormat;
+  /** Renders the result as Markdown; used when format is markdown */
+  toMarkdown?: (value: T) => string;
+  /** Tool-specific trimming, applied before the generic fallback */
+  trimmer?: Trimmer<T>;
+  /** Extra advice appended to the truncation note */
+  hint?: string;
+}
+
+/**
+ * Render the truncation entry as a Markdown note
+ */
+function truncationToMarkdown(truncation: Truncation): string {
+  const omitted = Object.entries(truncation.omitted).map(([key, count]) => `${key}: ${count}`);
+  return `> **Note:** ${truncation.note}${omitted.length > 0 ? ` (${omitted.join(', ')})` : ''}`;
+}
+
+/**
+ * A tool result serialized within its budget
+ */
+export interface FormattedOutput {
+  /** JSON or Markdown text for the result's text content */
+  text: string;
+  /** The result as sent in the text, for structuredContent (includes the truncation entry when trimmed) */
+  value: Record<string, unknown>;
+}
+
+/**
+ * Serialize a tool result within a character budget
+ * @param value - Result object
+ * @param budgetChars - Maximum length of the returned text
+ * @param options - Output format, Markdown renderer, trimmer and truncation hint
+ */
+export function formatToolOutput<T extends object>(value: T, budgetChars: number, options: OutputOptions<T> = {}): FormattedOutput {
+  const { trimmer, hint } = options;
+  const toMarkdown = options.format === 'markdown' ? options.toMarkdown : undefined;
+  const untrimmed = value as Record<string, unknown>;
+
+  let fullLength: number;
+  if (toMarkdown) {
+    const markdown = toMarkdown(value);
+    if (markdown.length <= budgetChars) {
+      return { text: markdown, value: untrimmed };
+    }
+    fullLength = markdown.length;
+  } else {
+    const pretty = JSON.stringify(value, null, 2);
+    if (pretty.length <= budgetChars) {
+      return { text: pretty, value: untrimmed };
+    }
+    const compact = JSON.stringify(value);
+    if (compact.length <= budgetChars) {
+      debug('Result compacted to fit output budget', { prettyLength: pretty.length, budgetChars });
+      return { text: compact, value: untrimmed };
+    }
+    fullLength = compact.length;
+  }
+
+  const note = `Result trimmed from ${fullLength} to fit ${budgetChars} characters.` +
+    ` Raise maxOutputTokens or narrow the request to see more.${hint ? ` ${hint}` : ''}`;
+
+  // Reserve room for the truncation entry itself (with room for a few omitted counts)
+  const stub: Truncation = { budgetChars, omitted: {}, note };
+  const reserve = (toMarkdown ? truncationToMarkdown(stub).length : JSON.stringify({ truncation: stub }).length) + 120;
+  const measure = toMarkdown
+    ? (candidate: unknown) => toMarkdown(candidate as T).length
+    : (candidate: unknown) => JSON.stringify(candidate).length;
+  const fits = (candidate: unknown) => measure(candidate) <= budgetChars - reserve;
+
+  let trimmed: unknown = value;
+  let omitted: Record<string, number> = {};
+  if (trimmer) {
+    const result = trimmer(structuredClone(value), fits);
+    trimmed = result.value;
+    omitted = result.omitted;
+  }
+  if (!fits(trimmed)) {
+    const result = trimGeneric(structuredClone(trimmed), fits);
+    trimmed = result.value;
+    omitted = { ...omitted, ...result.omitted };
+  }
+
+  const truncation: Truncation = { budgetChars, omitted, note };
+  debug('Result trimmed to fit output budget', { originalLength: fullLength, budgetChars, omitted });
+
+  const output: Record<string, unknown> = trimmed && typeof trimmed === 'object' && !Array.isArray(trimmed)
+    ? { ...trimmed, truncation }
+    : { result: trimmed, truncation };
+
+  if (toMarkdown) {
+    return { text: `${toMarkdown(trimmed as T)}\n\n${truncationToMarkdown(truncation)}`, value: output };
+  }
+
+  const prettyOutput = JSON.stringify(output, null, 2);
+  return { text: prettyOutput.length <= budgetChars ? prettyOutput : JSON.stringify(output), value: output };
+}
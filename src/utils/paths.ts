@@ -0,0 +1,45 @@
+/**
+ * Locations of files written by the server
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+const APP_DIR_NAME = 'm365-copilot-mcp';
+
+/**
+ * Get the per-user configuration directory, creating it if needed
+ * - Windows: %APPDATA%\m365-copilot-mcp
+ * - macOS: ~/Library/Application Support/m365-copilot-mcp
+ * - Linux: $XDG_CONFIG_HOME/m365-copilot-mcp (default: ~/.config/m365-copilot-mcp)
+ * Can be overridden via M365_CONFIG_DIR environment variable
+ */
+export function getConfigDir(): string {
+  const homeDir = os.homedir();
+  let configDir: string;
+
+  if (process.env.M365_CONFIG_DIR) {
+    configDir = process.env.M365_CONFIG_DIR;
+  } else if (process.platform === 'win32') {
+    const appData = process.env.APPDATA || path.join(homeDir, 'AppData', 'Roaming');
+    configDir = path.join(appData, APP_DIR_NAME);
+  } else if (process.platform === 'darwin') {
+    configDir = path.join(homeDir, 'Library', 'Application Support', APP_DIR_NAME);
+  } else {
+    const xdgConfig = process.env.XDG_CONFIG_HOME || path.join(homeDir, '.config');
+    configDir = path.join(xdgConfig, APP_DIR_NAME);
+  }
+
+  if (!fs.existsSync(configDir)) {
+    fs.mkdirSync(configDir, { recursive: true, mode: 0o700 });
+  }
+  return configDir;
+}
+
+/**
+ * Get the path of a file in the configuration directory
+ */
+export function getConfigFilePath(fileName: string): string {
+  return path.join(getConfigDir(), fileName);
+}
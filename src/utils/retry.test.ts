@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { CircuitBreaker, parseRetryAfter, computeBackoffDelay } from './retry.js';
+
+describe('parseRetryAfter', () => {
+  it('reads delta-seconds', () => {
+    expect(parseRetryAfter('5')).toBe(5000);
+    expect(parseRetryAfter(' 1.5 ')).toBe(1500);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    const now = Date.parse('Mon, 19 Oct 2026 10:00:00 GMT');
+    expect(parseRetryAfter('Mon, 19 Oct 2026 10:00:30 GMT', now)).toBe(30_000);
+  });
+
+  it('never returns a negative delay for a date in the past', () => {
+    const now = Date.parse('Mon, 19 Oct 2026 10:00:00 GMT');
+    expect(parseRetryAfter('Mon, 19 Oct 2026 09:00:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores missing or invalid headers', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('computeBackoffDelay', () => {
+  it('stays within the exponential ceiling and the maximum delay', () => {
+    const policy = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000, retryBudgetMs: 10_000 };
+    for (let retry = 0; retry < 8; retry++) {
+      const delay = computeBackoffDelay(retry, policy);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(Math.min(1000, 100 * 2 ** retry));
+    }
+  });
+});
+
+describe('CircuitBreaker', () => {
+  const options = { failureThreshold: 3, cooldownMs: 1000 };
+
+  it('opens after the threshold of consecutive failures', () => {
+    const breaker = new CircuitBreaker('test', options);
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    expect(breaker.allowRequest(0)).toBe(true);
+    breaker.recordFailure(0);
+
+    expect(breaker.allowRequest(10)).toBe(false);
+    expect(breaker.getSnapshot(10)).toMatchObject({ state: 'open', consecutiveFailures: 3, retryInMs: 990 });
+  });
+
+  it('counts only consecutive failures', () => {
+    const breaker = new CircuitBreaker('test', options);
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    breaker.recordSuccess();
+    breaker.recordFailure(0);
+
+    expect(breaker.allowRequest(0)).toBe(true);
+    expect(breaker.getSnapshot(0)).toEqual({ state: 'closed', consecutiveFailures: 1 });
+  });
+
+  it('lets a single trial request through after the cooldown', () => {
+    const breaker = new CircuitBreaker('test', { failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure(0);
+
+    expect(breaker.allowRequest(999)).toBe(false);
+    expect(breaker.allowRequest(1000)).toBe(true);
+    expect(breaker.allowRequest(1000)).toBe(false);
+    expect(breaker.getSnapshot(1000).state).toBe('half-open');
+  });
+
+  it('closes when the trial succeeds and re-opens when it fails', () => {
+    const breaker = new CircuitBreaker('test', { failureThreshold: 5, cooldownMs: 1000 });
+    for (let i = 0; i < 5; i++) {
+      breaker.recordFailure(0);
+    }
+
+    expect(breaker.allowRequest(1000)).toBe(true);
+    breaker.recordFailure(1000);
+    expect(breaker.getSnapshot(1000).state).toBe('open');
+    expect(breaker.allowRequest(1500)).toBe(false);
+
+    expect(breaker.allowRequest(2000)).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.getSnapshot(2000)).toEqual({ state: 'closed', consecutiveFailures: 0 });
+    expect(breaker.allowRequest(2000)).toBe(true);
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Retry, backoff and circuit breaker primitives for Graph calls
+ */
+
+import { ConfigurationError } from './errors.js';
+import { info, warn } from './logger.js';
+
+/**
+ * HTTP status codes that indicate throttling or a transient Graph failure
+ */
+export const RETRYABLE_STATUS_CODES: readonly number[] = [429, 503, 504];
+
+/**
+ * Retry policy for a single Graph call
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries after the first attempt */
+  maxRetries: number;
+  /** Base delay for exponential backoff */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+  /** Total time a single call may spend waiting between attempts */
+  retryBudgetMs: number;
+}
+
+/**
+ * Circuit breaker settings
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failed attempts before the breaker opens */
+  failureThreshold: number;
+  /** How long the breaker stays open before letting a trial request through */
+  cooldownMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Snapshot of the breaker, included in error details
+ */
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  retryInMs?: number;
+}
+
+/**
+ * Read a non-negative integer from an environment variable
+ */
+export function envInteger(name: string, defaultValue: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return defaultValue;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new ConfigurationError(`${name} must be a non-negative integer`, {
+      setting: name,
+      value: raw,
+    });
+  }
+
+  return value;
+}
+
+/**
+ * Load the retry policy from environment variables
+ * - GRAPH_MAX_RETRIES (default: 3)
+ * - GRAPH_RETRY_BUDGET_MS (default: 60000)
+ */
+export function loadRetryPolicyFromEnv(): RetryPolicy {
+  return {
+    maxRetries: envInteger('GRAPH_MAX_RETRIES', 3),
+    baseDelayMs: 1000,
+    maxDelayMs: 30_000,
+    retryBudgetMs: envInteger('GRAPH_RETRY_BUDGET_MS', 60_000),
+  };
+}
+
+/**
+ * Load circuit breaker options from environment variables
+ * - GRAPH_CIRCUIT_BREAKER_THRESHOLD (default: 5)
+ * - GRAPH_CIRCUIT_BREAKER_COOLDOWN_MS (default: 30000)
+ */
+export function loadCircuitBreakerOptionsFromEnv(): CircuitBreakerOptions {
+  return {
+    failureThreshold: Math.max(1, envInteger('GRAPH_CIRCUIT_BREAKER_THRESHOLD', 5)),
+    cooldownMs: envInteger('GRAPH_CIRCUIT_BREAKER_COOLDOWN_MS', 30_000),
+  };
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date)
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const trimmed = header.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  if (!isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff with full jitter
+ * @param retry - Zero-based retry number
+ */
+export function computeBackoffDelay(retry: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Circuit breaker that fails fast while a dependency is unhealthy
+ *
+ * closed    -> requests flow; consecutive failures are counted
+ * open      -> requests are rejected until the cooldown has elapsed
+ * half-open -> a single trial request is let through; success closes, failure re-opens
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly name: string,
+    private options: CircuitBreakerOptions
+  ) {}
+
+  /**
+   * Check whether a request may be sent now
+   */
+  public allowRequest(now: number = Date.now()): boolean {
+    if (this.state === 'open' && this.openedAt !== null && now - this.openedAt >= this.options.cooldownMs) {
+      this.state = 'half-open';
+      this.trialInFlight = false;
+      info(`Circuit breaker '${this.name}' is half-open - allowing a trial request`);
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Record a healthy response
+   */
+  public recordSuccess(): void {
+    if (this.state !== 'closed') {
+      info(`Circuit breaker '${this.name}' closed`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a throttling, transient or network failure
+   */
+  public recordFailure(now: number = Date.now()): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        warn(`Circuit breaker '${this.name}' opened`, {
+          consecutiveFailures: this.consecutiveFailures,
+          cooldownMs: this.options.cooldownMs,
+        });
+      }
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  /**
+   * Snapshot of the current state
+   */
+  public getSnapshot(now: number = Date.now()): CircuitBreakerSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.openedAt !== null
+        ? {
+            openedAt: new Date(this.openedAt).toISOString(),
+            retryInMs: Math.max(0, this.openedAt + this.options.cooldownMs - now),
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * Reset to closed and apply new options
+   */
+  public reset(options?: CircuitBreakerOptions): void {
+    if (options) {
+      this.options = options;
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * JSON Schemas tied to TypeScript types
+ * SchemaFor<T> only accepts a schema whose properties and value types match T.
+ * Optional properties must be marked `optional: true` and nullable ones
+ * `nullable: true`, so a schema written against an interface stops compiling
+ * when the interface changes. toJsonSchema() turns it into plain JSON Schema.
+ */
+
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv';
+import { warn } from './logger.js';
+
+interface SchemaBase {
+  description?: string;
+}
+
+/**
+ * Schema for a value of any shape (used for `any` and `unknown`)
+ */
+type AnySchema = SchemaBase & Record<string, unknown>;
+
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+/**
+ * Marker required on properties that are optional (optional: true) or may be null (nullable: true)
+ */
+type PropertyMarkers<V> =
+  (undefined extends V ? { optional: true } : { optional?: never }) &
+  (null extends V ? { nullable: true } : { nullable?: never });
+
+type PropertySchemas<T> = {
+  [K in keyof T]-?: IsAny<T[K]> extends true
+    ? AnySchema
+    : SchemaFor<NonNullable<T[K]>> & PropertyMarkers<T[K]>;
+};
+
+export type SchemaFor<T> =
+  IsAny<T> extends true ? AnySchema :
+  unknown extends T ? AnySchema :
+  [T] extends [string] ? SchemaBase & { type: 'string'; enum?: readonly T[] } :
+  [T] extends [number] ? SchemaBase & { type: 'number' | 'integer'; minimum?: number; maximum?: number } :
+  [T] extends [boolean] ? SchemaBase & { type: 'boolean' } :
+  [T] extends [ReadonlyArray<infer U>] ? SchemaBase & { type: 'array'; items: SchemaFor<U> } :
+  [T] extends [object] ? SchemaBase & {
+    type: 'object';
+    properties: PropertySchemas<T>;
+    additionalProperties?: boolean;
+  } :
+  never;
+
+/**
+ * Plain JSON Schema (as sent in a tool's outputSchema)
+ */
+export interface JsonSchema {
+  type: 'object';
+  properties?: Record<string, object>;
+  required?: string[];
+  [key: string]: unknown;
+}
+
+function convert(schema: Record<string, any>): Record<string, unknown> {
+  const { optional, nullable, properties, items, ...rest } = schema;
+  const converted: Record<string, unknown> = { ...rest };
+
+  if (nullable && typeof rest.type === 'string') {
+    converted.type = [rest.type, 'null'];
+  }
+  if (items) {
+    converted.items = convert(items);
+  }
+  if (properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(properties).map(([key, property]) => [key, convert(property as Record<string, any>)])
+    );
+    const required = Object.entries(properties)
+      .filter(([, property]) => !(property as Record<string, any>).optional)
+      .map(([key]) => key);
+    if (required.length > 0) {
+      converted.required = required;
+    }
+  }
+
+  return converted;
+}
+
+/**
+ * Convert a type-checked schema into plain JSON Schema
+ * The required list is derived from the optional markers.
+ */
+export function toJsonSchema<T extends object>(schema: SchemaFor<T> & { type: 'object' }): JsonSchema {
+  return convert(schema as Record<string, any>) as JsonSchema;
+}
+
+/**
+ * Add optional properties to an object schema (e.g. metadata added by this server)
+ */
+export function extendJsonSchema(schema: JsonSchema, properties: Record<string, object>): JsonSchema {
+  return {
+    ...schema,
+    properties: { ...(schema.properties || {}), ...properties },
+  };
+}
+
+let validator: AjvJsonSchemaValidator | null = null;
+
+/**
+ * Check a value against a schema and log any mismatch
+ * Used in debug mode to catch drift between the declared outputSchema and real results.
+ * @returns true if the value matches
+ */
+export function checkAgainstSchema(name: string, schema: JsonSchema, value: unknown): boolean {
+  validator = validator || new AjvJsonSchemaValidator();
+  const result = validator.getValidator(schema)(value);
+  if (!result.valid) {
+    warn('Result does not match its output schema', { name, error: result.errorMessage });
+  }
+  return result.valid;
+}
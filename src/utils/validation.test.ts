@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { ValidationError } from './errors.js';
+import { requireGuid, validateKqlFilter } from './validation.js';
+
+const PROPERTIES = ['FileExtension', 'LastModifiedTime', 'Author'];
+
+describe('validateKqlFilter', () => {
+  it('accepts valid expressions', () => {
+    for (const filter of [
+      'FileExtension:"docx"',
+      'FileExtension:"docx" AND LastModifiedTime>=2024-01-01',
+      '(fileextension:docx OR FileExtension:pptx) AND NOT Author:"Megan Bowen"',
+      'NOT (Author:"A" OR Author:"B")',
+      '"quarterly report"',
+    ]) {
+      expect(validateKqlFilter(filter, 'filterExpression', PROPERTIES)).toBe(filter);
+    }
+  });
+
+  it.each([
+    ['', 'expression is empty'],
+    ['FileExtension:"docx', 'unterminated quoted string'],
+    ['Path:"https://contoso"', "unsupported property 'Path'"],
+    ['(FileExtension:docx', 'unbalanced parentheses'],
+    ['FileExtension:docx)', 'unbalanced parentheses'],
+    ['()', 'empty parentheses'],
+    ['FileExtension:docx AND', "operator 'AND' is missing an operand"],
+    ['OR FileExtension:docx', "operator 'OR' is missing an operand"],
+    ['Author: AND', "missing value for property 'Author'"],
+  ])('rejects %j (%s)', (filter, reason) => {
+    expect(() => validateKqlFilter(filter, 'filterExpression', PROPERTIES)).toThrow(ValidationError);
+    expect(() => validateKqlFilter(filter, 'filterExpression', PROPERTIES)).toThrow(reason);
+  });
+});
+
+describe('requireGuid', () => {
+  it('accepts GUIDs in either case', () => {
+    expect(requireGuid('0d110e7e-2b7e-4270-a899-fd2af6fde333', 'conversationId')).toBe('0d110e7e-2b7e-4270-a899-fd2af6fde333');
+    expect(requireGuid('0D110E7E-2B7E-4270-A899-FD2AF6FDE333', 'conversationId')).toBe('0D110E7E-2B7E-4270-A899-FD2AF6FDE333');
+  });
+
+  it('rejects anything else', () => {
+    expect(() => requireGuid('../../me', 'conversationId')).toThrow(ValidationError);
+    expect(() => requireGuid('0d110e7e-2b7e-4270-a899-fd2af6fde333/x', 'conversationId')).toThrow('must be a GUID');
+    expect(() => requireGuid(42, 'conversationId')).toThrow(ValidationError);
+  });
+});
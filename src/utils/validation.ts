@@ -44,6 +44,22 @@ export function requireNumber(value: unknown, paramName: string): number {
   return value;
 }
 
+/**
+ * Validate that a required parameter exists and is an integer
+ */
+export function requireInteger(value: unknown, paramName: string): number {
+  const num = requireNumber(value, paramName);
+
+  if (!Number.isInteger(num)) {
+    throw new ValidationError(`Parameter '${paramName}' must be an integer`, {
+      paramName,
+      actualValue: num,
+    });
+  }
+
+  return num;
+}
+
 /**
  * Validate that a required parameter exists and is a boolean
  */
@@ -72,6 +88,21 @@ export function requireArray(value: unknown, paramName: string): unknown[] {
   return value;
 }
 
+/**
+ * Validate that a required parameter is a non-empty array of non-empty strings
+ */
+export function requireStringArray(value: unknown, paramName: string): string[] {
+  const array = requireArray(value, paramName);
+
+  if (array.length === 0) {
+    throw new ValidationError(`Parameter '${paramName}' cannot be empty`, {
+      paramName,
+    });
+  }
+
+  return array.map((item, index) => requireString(item, `${paramName}[${index}]`));
+}
+
 /**
  * Validate that a required parameter exists and is an object
  */
@@ -86,6 +117,48 @@ export function requireObject(value: unknown, paramName: string): Record<string,
   return value as Record<string, unknown>;
 }
 
+/**
+ * Validate that a required parameter is an absolute https URL
+ */
+export function requireHttpsUrl(value: unknown, paramName: string): string {
+  const str = requireString(value, paramName);
+
+  let url: URL;
+  try {
+    url = new URL(str);
+  } catch {
+    throw new ValidationError(`Parameter '${paramName}' must be a valid URL`, {
+      paramName,
+      receivedValue: str,
+    });
+  }
+
+  if (url.protocol !== 'https:') {
+    throw new ValidationError(`Parameter '${paramName}' must be an https URL`, {
+      paramName,
+      receivedValue: str,
+    });
+  }
+
+  return str;
+}
+
+/**
+ * Validate that a required parameter is a GUID (e.g. a Copilot conversation ID)
+ */
+export function requireGuid(value: unknown, paramName: string): string {
+  const str = requireString(value, paramName);
+
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(str)) {
+    throw new ValidationError(`Parameter '${paramName}' must be a GUID`, {
+      paramName,
+      receivedValue: str,
+    });
+  }
+
+  return str;
+}
+
 /**
  * Validate that a string matches one of the allowed values
  */
@@ -143,6 +216,28 @@ export function optionalBoolean(value: unknown, paramName: string): boolean | un
   return requireBoolean(value, paramName);
 }
 
+/**
+ * Validate optional integer parameter
+ */
+export function optionalInteger(value: unknown, paramName: string): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  return requireInteger(value, paramName);
+}
+
+/**
+ * Validate optional string array parameter
+ */
+export function optionalStringArray(value: unknown, paramName: string): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  return requireStringArray(value, paramName);
+}
+
 /**
  * Validate that a string meets minimum length requirement
  */
@@ -194,3 +289,111 @@ export function inRange(value: number, min: number, max: number, paramName: stri
 
   return value;
 }
+
+/**
+ * Validate a KQL filter expression
+ * Checks quoting, parentheses, boolean operators and that property
+ * restrictions only use the allowed properties (case-insensitive)
+ *
+ * @example validateKqlFilter('FileExtension:"docx" AND LastModifiedTime>=2024-01-01', 'filterExpression', ['FileExtension', 'LastModifiedTime'])
+ */
+export function validateKqlFilter(
+  value: string,
+  paramName: string,
+  allowedProperties: readonly string[]
+): string {
+  const fail = (reason: string, details: Record<string, unknown> = {}): never => {
+    throw new ValidationError(`Parameter '${paramName}' is not a valid KQL filter: ${reason}`, {
+      paramName,
+      filterExpression: value,
+      ...details,
+    });
+  };
+
+  // Tokenize into quoted strings, parentheses, property restrictions and terms
+  const tokens: { type: 'open' | 'close' | 'operator' | 'restriction' | 'term'; text: string }[] = [];
+  const restriction = /^([A-Za-z][A-Za-z0-9_]*)(:|<>|>=|<=|=|>|<)/;
+  let i = 0;
+
+  while (i < value.length) {
+    const char = value[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close', text: char });
+      i++;
+    } else if (char === '"') {
+      const end = value.indexOf('"', i + 1);
+      if (end === -1) {
+        fail('unterminated quoted string', { position: i });
+      }
+      tokens.push({ type: 'term', text: value.slice(i, end + 1) });
+      i = end + 1;
+    } else {
+      const match = restriction.exec(value.slice(i));
+      if (match) {
+        const property = match[1];
+        if (!allowedProperties.some(p => p.toLowerCase() === property.toLowerCase())) {
+          fail(`unsupported property '${property}'`, { property, allowedProperties: [...allowedProperties] });
+        }
+
+        // The value is either a quoted string or a bare word
+        i += match[0].length;
+        if (value[i] === '"') {
+          const end = value.indexOf('"', i + 1);
+          if (end === -1) {
+            fail('unterminated quoted string', { position: i });
+          }
+          i = end + 1;
+        } else {
+          const bare = /^[^\s()"]+/.exec(value.slice(i));
+          if (!bare) {
+            fail(`missing value for property '${property}'`, { property });
+          }
+          i += bare![0].length;
+        }
+        tokens.push({ type: 'restriction', text: property });
+      } else {
+        const word = /^[^\s()"]+/.exec(value.slice(i))![0];
+        tokens.push({ type: /^(AND|OR|NOT)$/.test(word) ? 'operator' : 'term', text: word });
+        i += word.length;
+      }
+    }
+  }
+
+  if (tokens.length === 0) {
+    fail('expression is empty');
+  }
+
+  let depth = 0;
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    const next = tokens[index + 1];
+
+    if (token.type === 'open') {
+      depth++;
+      if (!next || next.type === 'close') {
+        fail('empty parentheses');
+      }
+    } else if (token.type === 'close') {
+      depth--;
+      if (depth < 0) {
+        fail('unbalanced parentheses');
+      }
+    } else if (token.type === 'operator') {
+      const isUnaryNot = token.text === 'NOT';
+      const hasLeft = previous && previous.type !== 'open' && previous.type !== 'operator';
+      const hasRight = next && next.type !== 'close' && (next.type !== 'operator' || next.text === 'NOT');
+      if ((!isUnaryNot && !hasLeft) || !hasRight) {
+        fail(`operator '${token.text}' is missing an operand`);
+      }
+    }
+  });
+
+  if (depth !== 0) {
+    fail('unbalanced parentheses');
+  }
+
+  return value;
+}